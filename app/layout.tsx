@@ -1,8 +1,10 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css"; // Global styles
+import { I18nProvider } from "@/components/I18nProvider";
+import { DEFAULT_LOCALE } from "@/lib/i18n";
 
-const inter = Inter({ subsets: ["latin"] });
+const inter = Inter({ subsets: ["latin", "cyrillic"] });
 
 export const metadata: Metadata = {
     title: "amirsub | AI Face Analysis",
@@ -15,8 +17,11 @@ export default function RootLayout({
     children: React.ReactNode;
 }>) {
     return (
-        <html lang="en">
-            <body className={inter.className}>{children}</body>
+        // The provider switches `lang` once the visitor's language is known
+        <html lang={DEFAULT_LOCALE}>
+            <body className={inter.className}>
+                <I18nProvider>{children}</I18nProvider>
+            </body>
         </html>
     );
 }
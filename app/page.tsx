@@ -1,15 +1,41 @@
 "use client";
 
-import React, { useState, useRef, useEffect } from 'react';
-import { analyzeFace, AnalysisResult } from '@/lib/analyzeFace';
-import { drawAnalysis } from '@/lib/visualize';
-import { ResultCard } from '@/components/ResultCard';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AnalysisResult } from '@/lib/analyzeFace';
+import { ProfileAnalysisResult } from '@/lib/analyzeProfile';
+import { runFaceAnalysis, runProfileAnalysis, runSeriesAnalysis, AnalysisProgress } from '@/lib/analysisClient';
+import { drawAnalysis, drawProfileAnalysis, drawFaceBoxes, OverlayLayers, OverlayTheme } from '@/lib/visualize';
+import { combineResults } from '@/lib/combinedReport';
+import { NORM_SETS } from '@/lib/norms';
+import { describeError, Messages, normSetLabel } from '@/lib/i18n';
+import { ResultCard, QualityChecks } from '@/components/ResultCard';
+import { CombinedReportCard } from '@/components/CombinedReportCard';
+import { ExportBar } from '@/components/ExportBar';
+import { LandmarkEditor } from '@/components/LandmarkEditor';
+import { FaceRanking, FaceRankEntry } from '@/components/FaceRanking';
+import { OverlayControls } from '@/components/OverlayControls';
 import { CameraCapture } from '@/components/CameraCapture';
-import { Upload, Camera, Loader2, AlertCircle, User, UserPlus } from 'lucide-react';
+import { AnalysisError, ExpressionError, MultipleFacesError, QualityGateError, toAnalysisError } from '@/lib/errors';
+import { FaceBox } from '@/lib/geometry';
+import { registerServiceWorker } from '@/lib/assets';
+import { saveToHistory } from '@/lib/history';
+import { HistoryView } from '@/components/HistoryView';
+import { CompareView } from '@/components/CompareView';
+import { ImportView } from '@/components/ImportView';
+import { Glossary } from '@/components/Glossary';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { useI18n } from '@/components/I18nProvider';
+import { SeriesAnalysisResult, MIN_SERIES_PHOTOS, MAX_SERIES_PHOTOS } from '@/lib/series';
+import { Upload, Camera, Loader2, AlertCircle, User, UserPlus, Images, History, Columns2, FileJson, MousePointer2, Users, BookOpen } from 'lucide-react';
 
 type Tab = 'front' | 'side';
 
+const formatProgress = (t: Messages, { stage, photo }: AnalysisProgress) =>
+    photo ? t.analyze.photoProgress(photo.index, photo.total, t.stages[stage]) : `${t.stages[stage]}...`;
+
 export default function Home() {
+    const i18n = useI18n();
+    const { t } = i18n;
     const [activeTab, setActiveTab] = useState<Tab>('front');
 
     // Images
@@ -18,30 +44,80 @@ export default function Home() {
 
     // Results
     const [frontResult, setFrontResult] = useState<AnalysisResult | null>(null);
-    const [sideResult, setSideResult] = useState<AnalysisResult | null>(null);
+    const [sideResult, setSideResult] = useState<ProfileAnalysisResult | null>(null);
 
     const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<AnalysisError | null>(null);
     const [showCamera, setShowCamera] = useState(false);
+    const [cameraSeries, setCameraSeries] = useState(false);
+    const [frontSeries, setFrontSeries] = useState<SeriesAnalysisResult | null>(null);
+    const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const [screen, setScreen] = useState<'analyze' | 'history' | 'compare' | 'import' | 'glossary'>('analyze');
+    const [imageVersion, setImageVersion] = useState(0);
+    const [scoringProfileId, setScoringProfileId] = useState<string | null>(null);
+    const [normSetId, setNormSetId] = useState<string>(NORM_SETS[0].id);
+    const [strict, setStrict] = useState(false); // Front: skip landmark regularization
+    const [showCorrections, setShowCorrections] = useState(false);
+    const [overlayLayers, setOverlayLayers] = useState<OverlayLayers>({});
+    const [overlayTheme, setOverlayTheme] = useState<OverlayTheme>('tech');
+    // Result the landmark editor started from, restored on cancel
+    const [editBase, setEditBase] = useState<AnalysisResult | ProfileAnalysisResult | null>(null);
+    // Group photo: the detected faces to pick from, for the tab that found them
+    const [faceChoices, setFaceChoices] = useState<{ tab: Tab; faces: FaceBox[] } | null>(null);
+    const [selectedFace, setSelectedFace] = useState<number | null>(null);
+    const [faceRanking, setFaceRanking] = useState<FaceRankEntry[] | null>(null); // Front only
 
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const seriesInputRef = useRef<HTMLInputElement>(null);
     const imageRef = useRef<HTMLImageElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
     // Get current state based on tab
     const currentImage = activeTab === 'front' ? frontImage : sideImage;
     const currentResult = activeTab === 'front' ? frontResult : sideResult;
+    const editing = editBase !== null && editBase.view === (activeTab === 'front' ? 'front' : 'profile');
+    const currentFaces = faceChoices?.tab === activeTab ? faceChoices.faces : null;
+
+    // Merged verdict once both views are analyzed
+    const combinedReport = useMemo(
+        () => (frontResult && sideResult ? combineResults(frontResult, sideResult) : null),
+        [frontResult, sideResult]
+    );
 
     const setImage = (img: string | null) => {
         if (activeTab === 'front') setFrontImage(img);
         else setSideImage(img);
 
         // Clear result when image changes
-        if (activeTab === 'front') setFrontResult(null);
-        else setSideResult(null);
+        if (activeTab === 'front') {
+            setFrontResult(null);
+            setFrontSeries(null);
+        } else {
+            setSideResult(null);
+        }
+        if (faceChoices?.tab === activeTab) setFaceChoices(null);
+        if (activeTab === 'front') setFaceRanking(null);
+        setSelectedFace(null);
+        setEditBase(null);
         setError(null);
     };
 
+    const setResult = (result: AnalysisResult | ProfileAnalysisResult) => {
+        if (result.view === 'front') setFrontResult(result);
+        else setSideResult(result);
+    };
+
+    // Scoring profile can be pinned per visit (?profile=structure) for A/B runs
+    useEffect(() => {
+        setScoringProfileId(new URLSearchParams(window.location.search).get('profile'));
+    }, []);
+
+    // Offline mode: precache the model assets after the first visit
+    useEffect(() => {
+        registerServiceWorker();
+    }, []);
+
     // Draw analysis overlay when result changes
     useEffect(() => {
         if (currentResult && currentResult.landmarks && canvasRef.current && imageRef.current) {
@@ -54,13 +130,33 @@ export default function Home() {
 
             const ctx = canvas.getContext('2d');
             if (ctx) {
-                drawAnalysis(ctx, currentResult.landmarks, canvas.width, canvas.height);
+                if (currentResult.view === 'profile') {
+                    drawProfileAnalysis(ctx, currentResult.landmarks, canvas.width, canvas.height, currentResult.visible_side, overlayTheme);
+                } else {
+                    drawAnalysis(ctx, currentResult.landmarks, canvas.width, canvas.height, {
+                        layers: overlayLayers,
+                        theme: overlayTheme,
+                        measurements: currentResult.measurements,
+                        i18n,
+                        corrections: showCorrections ? currentResult.regularization?.corrections : undefined,
+                    });
+                }
+                if (currentFaces) drawFaceBoxes(ctx, currentFaces, selectedFace);
+            }
+        } else if (currentFaces && canvasRef.current && imageRef.current) {
+            const canvas = canvasRef.current;
+            canvas.width = imageRef.current.naturalWidth;
+            canvas.height = imageRef.current.naturalHeight;
+            const ctx = canvas.getContext('2d');
+            if (ctx) {
+                ctx.clearRect(0, 0, canvas.width, canvas.height);
+                drawFaceBoxes(ctx, currentFaces, selectedFace);
             }
         } else if (canvasRef.current) {
             const ctx = canvasRef.current.getContext('2d');
             ctx?.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
         }
-    }, [currentResult, activeTab]);
+    }, [currentResult, activeTab, imageVersion, showCorrections, overlayLayers, overlayTheme, currentFaces, selectedFace, i18n]);
 
     const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -79,32 +175,131 @@ export default function Home() {
         setShowCamera(false);
     };
 
-    const processImage = async () => {
-        if (!imageRef.current) return;
-
+    const readAsDataURL = (file: File) => new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (event) => resolve(event.target?.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(file);
+    });
+
+    // Runs one analysis job with progress and cancellation; the worker keeps the UI responsive
+    const runJob = async (job: (options: { onProgress: (p: AnalysisProgress) => void; signal: AbortSignal }) => Promise<void>) => {
+        const controller = new AbortController();
+        setEditBase(null);
+        abortRef.current = controller;
         setLoading(true);
         setError(null);
-
         try {
-            // Small delay to let the UI update
-            await new Promise(resolve => setTimeout(resolve, 100));
-            const analysis = await analyzeFace(imageRef.current);
-
-            if (activeTab === 'front') setFrontResult(analysis);
-            else setSideResult(analysis);
-
-        } catch (err: any) {
-            console.error(err);
-            if (err.message === 'NO_FACE_DETECTED' || err.message === 'INVALID_FACE_ANGLE' || err.message === 'FACE_ALIGNMENT_ERROR') {
-                setError('Лицо не обнаружено. Используйте фото с хорошим освещением и четким лицом');
-            } else {
-                setError('Произошла ошибка при анализе. Пожалуйста, попробуйте другое фото.');
+            await job({ onProgress: setProgress, signal: controller.signal });
+        } catch (err) {
+            const analysisError = toAnalysisError(err);
+            if (analysisError.code !== 'CANCELLED') {
+                console.error(err);
+                setError(analysisError);
             }
+            // Not a silent pick: the faces are shown on the preview to choose from
+            if (analysisError instanceof MultipleFacesError) setFaceChoices({ tab: activeTab, faces: analysisError.faces });
         } finally {
+            if (abortRef.current === controller) abortRef.current = null;
             setLoading(false);
+            setProgress(null);
         }
     };
 
+    const cancelAnalysis = () => abortRef.current?.abort();
+
+    // Persist locally for the history screen; a storage failure must not hide the result
+    const remember = (result: AnalysisResult | ProfileAnalysisResult, imageSrc: string) => {
+        saveToHistory(result, imageSrc).catch(err => console.error("History save error:", err));
+    };
+
+    // Multi-photo mode: every photo is analyzed, the median face is scored
+    const processSeries = (images: string[]) => {
+        setShowCamera(false);
+        setImage(images[0]);
+        return runJob(async options => {
+            const series = await runSeriesAnalysis(images, { scoringProfileId, normSetId, strict, ...options });
+            setFrontImage(images[series.representative]);
+            setFrontResult(series.result);
+            setFrontSeries(series);
+            remember(series.result, images[series.representative]);
+        });
+    };
+
+    const handleSeriesUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        if (files.length > 0) processSeries(await Promise.all(files.map(readAsDataURL)));
+    };
+
+    // `faceIndex` picks a face of a group photo (index into `currentFaces`);
+    // `force` scores a photo the quality or expression checks blocked
+    const processImage = (faceIndex?: number, force = false) => {
+        const image = imageRef.current;
+        if (!image || !currentImage) return;
+        const face = faceIndex !== undefined ? currentFaces?.[faceIndex] : undefined;
+
+        return runJob(async options => {
+            if (activeTab === 'front') {
+                const result = await runFaceAnalysis(image, {
+                    scoringProfileId,
+                    normSetId,
+                    strict,
+                    face,
+                    allowLowQuality: force,
+                    allowNonNeutral: force,
+                    ...options,
+                });
+                setFrontResult(result);
+                setFrontSeries(null);
+                remember(result, currentImage);
+            } else {
+                const result = await runProfileAnalysis(image, { normSetId, face, ...options });
+                setSideResult(result);
+                remember(result, currentImage);
+            }
+            setSelectedFace(faceIndex ?? null);
+        });
+    };
+
+    // Group photo: analyze every face and rank them; the best one is shown
+    const analyzeAllFaces = () => {
+        const image = imageRef.current;
+        const faces = currentFaces;
+        if (!image || !faces) return;
+
+        return runJob(async options => {
+            const entries: FaceRankEntry[] = [];
+            for (let i = 0; i < faces.length; i++) {
+                try {
+                    entries.push({ face: i, result: await runFaceAnalysis(image, { scoringProfileId, normSetId, strict, face: faces[i], ...options }) });
+                } catch (err) {
+                    const analysisError = toAnalysisError(err);
+                    if (analysisError.code === 'CANCELLED') throw analysisError;
+                    entries.push({ face: i, error: analysisError });
+                }
+            }
+            setFaceRanking(entries);
+            const best = entries.reduce<FaceRankEntry | null>((top, e) => (e.result && (!top?.result || e.result.overall > top.result.overall) ? e : top), null);
+            if (best?.result) {
+                setFrontResult(best.result);
+                setFrontSeries(null);
+                setSelectedFace(best.face);
+            }
+        });
+    };
+
+    // Clicking a box on the preview analyzes that face
+    const handleFaceClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (!currentFaces || loading) return;
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
+        const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
+        const index = currentFaces.findIndex(b => x >= b.x && x <= b.x + b.width && y >= b.y && y <= b.y + b.height);
+        if (index >= 0) processImage(index);
+    };
+
     return (
         <main className="min-h-screen flex flex-col items-center justify-center p-4 md:p-24 text-white relative">
             {/* Ambient Background Glow */}
@@ -117,151 +312,330 @@ export default function Home() {
                 <h1 className="text-5xl md:text-8xl font-thin tracking-tighter mb-4 animate-in fade-in slide-in-from-bottom-4 duration-1000">
                     AMIR<span className="text-cyan-400 font-light italic">SUB</span>
                 </h1>
-                <p className="text-gray-400 text-lg md:text-xl max-w-2xl mb-8 font-light tracking-wide uppercase">
-                    Precision AI Aesthetics Engine
+                <p className="text-gray-400 text-lg md:text-xl max-w-2xl mb-6 font-light tracking-wide uppercase">
+                    {t.app.tagline}
                 </p>
+                <div className="mb-8">
+                    <LanguageSwitcher />
+                </div>
 
                 {/* Tabs */}
                 <div className="flex p-1 bg-white/5 rounded-full mb-8 border border-white/10 backdrop-blur-md">
                     <button
-                        onClick={() => setActiveTab('front')}
-                        className={`flex items-center gap-2 px-8 py-3 rounded-full text-xs font-bold tracking-widest transition-all ${activeTab === 'front' ? 'bg-cyan-400 text-black shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'text-gray-500 hover:text-white'}`}
+                        onClick={() => { setActiveTab('front'); setScreen('analyze'); }}
+                        className={`flex items-center gap-2 px-8 py-3 rounded-full text-xs font-bold uppercase tracking-widest transition-all ${screen === 'analyze' && activeTab === 'front' ? 'bg-cyan-400 text-black shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'text-gray-500 hover:text-white'}`}
                     >
                         <User className="w-3 h-3" />
-                        FRONT
+                        {t.tabs.front}
                     </button>
                     <button
-                        onClick={() => setActiveTab('side')}
-                        className={`flex items-center gap-2 px-8 py-3 rounded-full text-xs font-bold tracking-widest transition-all ${activeTab === 'side' ? 'bg-cyan-400 text-black shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'text-gray-500 hover:text-white'}`}
+                        onClick={() => { setActiveTab('side'); setScreen('analyze'); }}
+                        className={`flex items-center gap-2 px-8 py-3 rounded-full text-xs font-bold uppercase tracking-widest transition-all ${screen === 'analyze' && activeTab === 'side' ? 'bg-cyan-400 text-black shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'text-gray-500 hover:text-white'}`}
                     >
                         <UserPlus className="w-3 h-3" />
-                        SIDE
+                        {t.tabs.side}
+                    </button>
+                    <button
+                        onClick={() => setScreen('history')}
+                        className={`flex items-center gap-2 px-8 py-3 rounded-full text-xs font-bold uppercase tracking-widest transition-all ${screen === 'history' ? 'bg-cyan-400 text-black shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'text-gray-500 hover:text-white'}`}
+                    >
+                        <History className="w-3 h-3" />
+                        {t.tabs.history}
+                    </button>
+                    <button
+                        onClick={() => setScreen('compare')}
+                        className={`flex items-center gap-2 px-8 py-3 rounded-full text-xs font-bold uppercase tracking-widest transition-all ${screen === 'compare' ? 'bg-cyan-400 text-black shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'text-gray-500 hover:text-white'}`}
+                    >
+                        <Columns2 className="w-3 h-3" />
+                        {t.tabs.compare}
+                    </button>
+                    <button
+                        onClick={() => setScreen('import')}
+                        className={`flex items-center gap-2 px-8 py-3 rounded-full text-xs font-bold uppercase tracking-widest transition-all ${screen === 'import' ? 'bg-cyan-400 text-black shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'text-gray-500 hover:text-white'}`}
+                    >
+                        <FileJson className="w-3 h-3" />
+                        {t.tabs.import}
+                    </button>
+                    <button
+                        onClick={() => setScreen('glossary')}
+                        className={`flex items-center gap-2 px-8 py-3 rounded-full text-xs font-bold uppercase tracking-widest transition-all ${screen === 'glossary' ? 'bg-cyan-400 text-black shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'text-gray-500 hover:text-white'}`}
+                    >
+                        <BookOpen className="w-3 h-3" />
+                        {t.tabs.glossary}
                     </button>
                 </div>
 
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-16 items-start w-full">
-                    {/* Left Side: Upload / Preview */}
-                    <div className="flex flex-col items-center space-y-8">
-                        <div className="relative group w-full aspect-square max-w-sm rounded-[2rem] overflow-hidden border border-white/10 bg-white/5 hover:border-cyan-400/30 transition-all duration-500 flex items-center justify-center shadow-2xl">
-                            {currentImage ? (
-                                <div className="relative w-full h-full flex items-center justify-center bg-black/20">
-                                    {/* Wrapper that maintains image aspect ratio exactly */}
-                                    <div className="relative inline-block max-w-full max-h-full">
-                                        {/* eslint-disable-next-line @next/next/no-img-element */}
-                                        <img
-                                            ref={imageRef}
-                                            src={currentImage}
-                                            alt="Preview"
-                                            className="max-w-full max-h-full block object-contain"
-                                            style={{ maxHeight: '100%', maxWidth: '100%' }}
-                                        />
-                                        <canvas
-                                            ref={canvasRef}
-                                            className="absolute inset-0 w-full h-full pointer-events-none opacity-80"
+                {screen === 'history' ? (
+                    <HistoryView />
+                ) : screen === 'compare' ? (
+                    <CompareView scoringProfileId={scoringProfileId} normSetId={normSetId} />
+                ) : screen === 'import' ? (
+                    <ImportView scoringProfileId={scoringProfileId} />
+                ) : screen === 'glossary' ? (
+                    <Glossary />
+                ) : (
+                    <>
+                        {/* Reference Norms */}
+                        <div className="flex items-center gap-3 mb-8">
+                            <span className="text-[10px] uppercase tracking-[0.2em] text-gray-500">{t.analyze.norms}</span>
+                            <select
+                                value={normSetId}
+                                onChange={(e) => setNormSetId(e.target.value)}
+                                className="bg-white/5 border border-white/10 rounded-full px-4 py-2 text-xs tracking-widest uppercase text-gray-300 focus:outline-none focus:border-cyan-400/50"
+                            >
+                                {NORM_SETS.map(n => (
+                                    <option key={n.id} value={n.id} className="bg-gray-900">{normSetLabel(t, n.id)}</option>
+                                ))}
+                            </select>
+                            {activeTab === 'front' && (
+                                <label className="flex items-center gap-2 text-[10px] uppercase tracking-[0.2em] text-gray-500 cursor-pointer" title={t.analyze.strictHint}>
+                                    <input type="checkbox" checked={strict} onChange={(e) => setStrict(e.target.checked)} className="accent-cyan-400" />
+                                    {t.analyze.strict}
+                                </label>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-16 items-start w-full">
+                            {/* Left Side: Upload / Preview */}
+                            <div className="flex flex-col items-center space-y-8">
+                                <div className="relative group w-full aspect-square max-w-sm rounded-[2rem] overflow-hidden border border-white/10 bg-white/5 hover:border-cyan-400/30 transition-all duration-500 flex items-center justify-center shadow-2xl">
+                                    {editing && editBase && currentImage ? (
+                                        <LandmarkEditor
+                                            imageSrc={currentImage}
+                                            base={editBase}
+                                            onChange={setResult}
+                                            onDone={() => setEditBase(null)}
+                                            onCancel={() => { setResult(editBase); setEditBase(null); }}
                                         />
-                                    </div>
+                                    ) : currentImage ? (
+                                        <div className="relative w-full h-full flex items-center justify-center bg-black/20">
+                                            {/* Wrapper that maintains image aspect ratio exactly */}
+                                            <div className="relative inline-block max-w-full max-h-full">
+                                                {/* eslint-disable-next-line @next/next/no-img-element */}
+                                                <img
+                                                    ref={imageRef}
+                                                    src={currentImage}
+                                                    alt={t.analyze.preview}
+                                                    className="max-w-full max-h-full block object-contain"
+                                                    style={{ maxHeight: '100%', maxWidth: '100%' }}
+                                                    onLoad={() => setImageVersion(v => v + 1)}
+                                                />
+                                                <canvas
+                                                    ref={canvasRef}
+                                                    onClick={handleFaceClick}
+                                                    className={`absolute inset-0 w-full h-full opacity-80 ${currentFaces ? 'cursor-pointer' : 'pointer-events-none'}`}
+                                                />
+                                            </div>
+                                        </div>
+                                    ) : (
+                                        <div className="w-full h-full flex flex-col items-center justify-center gap-6">
+                                            <button
+                                                onClick={() => fileInputRef.current?.click()}
+                                                className="flex flex-col items-center group/btn"
+                                            >
+                                                <div className="w-20 h-20 rounded-full bg-white/5 flex items-center justify-center mb-4 group-hover/btn:bg-cyan-400/10 transition-colors border border-white/10 group-hover/btn:border-cyan-400/50">
+                                                    <Upload className="w-8 h-8 text-gray-400 group-hover/btn:text-cyan-400 transition-colors" />
+                                                </div>
+                                                <span className="text-xs text-gray-500 font-medium tracking-widest uppercase group-hover/btn:text-gray-300 transition-colors">{t.analyze.uploadPhoto}</span>
+                                            </button>
+                                
+                                            <div className="flex items-center gap-3 opacity-30">
+                                                <div className="h-px w-12 bg-white"></div>
+                                                <span className="text-[10px] uppercase tracking-widest">{t.analyze.or}</span>
+                                                <div className="h-px w-12 bg-white"></div>
+                                            </div>
+
+                                            <button
+                                                onClick={() => { setCameraSeries(false); setShowCamera(true); }}
+                                                className="flex items-center gap-2 text-gray-500 hover:text-cyan-400 transition-colors text-[10px] font-bold uppercase tracking-widest"
+                                            >
+                                                <Camera className="w-4 h-4" />
+                                                {t.analyze.useCamera}
+                                            </button>
+
+                                            {activeTab === 'front' && (
+                                                <div className="flex items-center gap-4">
+                                                    <button
+                                                        onClick={() => seriesInputRef.current?.click()}
+                                                        className="flex items-center gap-2 text-gray-500 hover:text-cyan-400 transition-colors text-[10px] font-bold uppercase tracking-widest"
+                                                    >
+                                                        <Images className="w-4 h-4" />
+                                                        {t.analyze.photoSeries(MIN_SERIES_PHOTOS, MAX_SERIES_PHOTOS)}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => { setCameraSeries(true); setShowCamera(true); }}
+                                                        className="text-gray-500 hover:text-cyan-400 transition-colors"
+                                                        title={t.analyze.captureSeries}
+                                                    >
+                                                        <Camera className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+
+                                    <input
+                                        type="file"
+                                        ref={fileInputRef}
+                                        className="hidden"
+                                        accept="image/*"
+                                        onChange={handleFileUpload}
+                                    />
+                                    <input
+                                        type="file"
+                                        ref={seriesInputRef}
+                                        className="hidden"
+                                        accept="image/*"
+                                        multiple
+                                        onChange={handleSeriesUpload}
+                                    />
                                 </div>
-                            ) : (
-                                <div className="w-full h-full flex flex-col items-center justify-center gap-6">
+
+                                <div className="flex gap-4 w-full max-w-sm">
                                     <button
-                                        onClick={() => fileInputRef.current?.click()}
-                                        className="flex flex-col items-center group/btn"
+                                        onClick={() => {
+                                            if (loading) {
+                                                cancelAnalysis();
+                                                return;
+                                            }
+                                            setImage(null);
+                                            if (fileInputRef.current) fileInputRef.current.value = '';
+                                        }}
+                                        disabled={!currentImage}
+                                        className="flex-1 flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white py-4 rounded-xl font-bold transition-all border border-white/10 disabled:opacity-20 disabled:cursor-not-allowed text-xs tracking-widest uppercase"
                                     >
-                                        <div className="w-20 h-20 rounded-full bg-white/5 flex items-center justify-center mb-4 group-hover/btn:bg-cyan-400/10 transition-colors border border-white/10 group-hover/btn:border-cyan-400/50">
-                                            <Upload className="w-8 h-8 text-gray-400 group-hover/btn:text-cyan-400 transition-colors" />
-                                        </div>
-                                        <span className="text-xs text-gray-500 font-medium tracking-widest uppercase group-hover/btn:text-gray-300 transition-colors">Upload Photo</span>
+                                        {loading ? t.analyze.cancel : t.analyze.clear}
                                     </button>
-                                    
-                                    <div className="flex items-center gap-3 opacity-30">
-                                        <div className="h-px w-12 bg-white"></div>
-                                        <span className="text-[10px] uppercase tracking-widest">OR</span>
-                                        <div className="h-px w-12 bg-white"></div>
-                                    </div>
 
                                     <button
-                                        onClick={() => setShowCamera(true)}
-                                        className="flex items-center gap-2 text-gray-500 hover:text-cyan-400 transition-colors text-[10px] font-bold uppercase tracking-widest"
+                                        onClick={() => processImage(selectedFace ?? undefined)}
+                                        disabled={!currentImage || loading}
+                                        className={`flex-[2] py-4 rounded-xl font-bold tracking-widest transition-all text-xs uppercase ${!currentImage || loading
+                                            ? 'bg-white/5 text-gray-600 cursor-not-allowed border border-white/5'
+                                            : 'bg-cyan-400 text-black hover:bg-cyan-300 shadow-[0_0_30px_rgba(34,211,238,0.2)]'
+                                            }`}
                                     >
-                                        <Camera className="w-4 h-4" />
-                                        Use Camera
+                                        {loading ? (
+                                            <div className="flex items-center justify-center gap-2">
+                                                <Loader2 className="w-4 h-4 animate-spin" />
+                                                {progress ? formatProgress(t, progress) : t.analyze.processing}
+                                            </div>
+                                        ) : t.analyze.analyze}
                                     </button>
                                 </div>
-                            )}
 
-                            <input
-                                type="file"
-                                ref={fileInputRef}
-                                className="hidden"
-                                accept="image/*"
-                                onChange={handleFileUpload}
-                            />
-                        </div>
+                                {currentResult?.view === 'front' && (currentResult.regularization?.corrections.length ?? 0) > 0 && !editing && (
+                                    <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-gray-500 cursor-pointer">
+                                        <input type="checkbox" checked={showCorrections} onChange={(e) => setShowCorrections(e.target.checked)} className="accent-amber-400" />
+                                        {t.analyze.showCorrections}
+                                    </label>
+                                )}
+
+                                {currentResult?.view === 'front' && currentResult.landmarks && !editing && (
+                                    <OverlayControls
+                                        layers={overlayLayers}
+                                        theme={overlayTheme}
+                                        measurements={currentResult.measurements}
+                                        onLayersChange={setOverlayLayers}
+                                        onThemeChange={setOverlayTheme}
+                                    />
+                                )}
+
+                                {/* A series result is a median over photos: dragging the representative's points can't edit it */}
+                                {currentResult?.landmarks && !loading && !editing && !(activeTab === 'front' && frontSeries) && (
+                                    <button
+                                        onClick={() => setEditBase(currentResult)}
+                                        className="flex items-center gap-2 text-gray-500 hover:text-cyan-400 transition-colors text-[10px] font-bold uppercase tracking-widest"
+                                    >
+                                        <MousePointer2 className="w-4 h-4" />
+                                        {t.analyze.editPoints}
+                                    </button>
+                                )}
 
-                        <div className="flex gap-4 w-full max-w-sm">
-                            <button
-                                onClick={() => {
-                                    setImage(null);
-                                    if (fileInputRef.current) fileInputRef.current.value = '';
-                                }}
-                                disabled={!currentImage}
-                                className="flex-1 flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white py-4 rounded-xl font-bold transition-all border border-white/10 disabled:opacity-20 disabled:cursor-not-allowed text-xs tracking-widest uppercase"
-                            >
-                                Clear
-                            </button>
-
-                            <button
-                                onClick={processImage}
-                                disabled={!currentImage || loading}
-                                className={`flex-[2] py-4 rounded-xl font-bold tracking-widest transition-all text-xs uppercase ${!currentImage || loading
-                                    ? 'bg-white/5 text-gray-600 cursor-not-allowed border border-white/5'
-                                    : 'bg-cyan-400 text-black hover:bg-cyan-300 shadow-[0_0_30px_rgba(34,211,238,0.2)]'
-                                    }`}
-                            >
-                                {loading ? (
-                                    <div className="flex items-center justify-center gap-2">
-                                        <Loader2 className="w-4 h-4 animate-spin" />
-                                        Processing...
+                                {activeTab === 'front' && currentFaces && !loading && !editing && (
+                                    <button
+                                        onClick={analyzeAllFaces}
+                                        className="flex items-center gap-2 text-gray-500 hover:text-cyan-400 transition-colors text-[10px] font-bold uppercase tracking-widest"
+                                    >
+                                        <Users className="w-4 h-4" />
+                                        {t.analyze.analyzeAllFaces(currentFaces.length)}
+                                    </button>
+                                )}
+
+                                {error && (
+                                    <div className="flex items-start gap-3 text-red-400 bg-red-500/10 px-6 py-4 rounded-xl border border-red-500/20 backdrop-blur-md">
+                                        <AlertCircle className="w-5 h-5 shrink-0" />
+                                        <div className="space-y-1">
+                                            <p className="text-xs font-medium tracking-wide">{describeError(t, error).message}</p>
+                                            <p className="text-[11px] text-red-300/80">{describeError(t, error).remediation}</p>
+                                            {(error instanceof QualityGateError || error instanceof ExpressionError) && (
+                                                <>
+                                                    {error instanceof QualityGateError && (
+                                                        <QualityChecks checks={error.report.checks.filter(c => c.status === 'warn')} />
+                                                    )}
+                                                    <button
+                                                        onClick={() => processImage(selectedFace ?? undefined, true)}
+                                                        className="pt-2 text-[10px] font-bold uppercase tracking-widest text-red-300 hover:text-white transition-colors"
+                                                    >
+                                                        {t.analyze.analyzeAnyway}
+                                                    </button>
+                                                </>
+                                            )}
+                                        </div>
                                     </div>
-                                ) : 'Analyze Face'}
-                            </button>
-                        </div>
-
-                        {error && (
-                            <div className="flex items-center gap-3 text-red-400 bg-red-500/10 px-6 py-4 rounded-xl border border-red-500/20 backdrop-blur-md">
-                                <AlertCircle className="w-5 h-5" />
-                                <span className="text-xs font-medium tracking-wide">{error}</span>
+                                )}
                             </div>
-                        )}
-                    </div>
 
-                    {/* Right Side: Results */}
-                    <div className="flex flex-col items-center lg:items-start justify-center min-h-[400px]">
-                        {currentResult ? (
-                            <div className="animate-in fade-in slide-in-from-bottom-8 duration-700 w-full flex justify-center lg:justify-start">
-                                <ResultCard result={currentResult} />
+                            {/* Right Side: Results */}
+                            <div className="flex flex-col items-center lg:items-start justify-center min-h-[400px]">
+                                {currentResult ? (
+                                    <div className="animate-in fade-in slide-in-from-bottom-8 duration-700 w-full flex flex-col items-center lg:items-start gap-6">
+                                        {activeTab === 'front' && faceRanking && (
+                                            <FaceRanking
+                                                entries={faceRanking}
+                                                selected={selectedFace}
+                                                onSelect={entry => {
+                                                    setFrontResult(entry.result!);
+                                                    setFrontSeries(null);
+                                                    setSelectedFace(entry.face);
+                                                }}
+                                            />
+                                        )}
+                                        <ResultCard
+                                            result={currentResult}
+                                            series={activeTab === 'front' ? frontSeries : null}
+                                        />
+                                        {currentImage && <ExportBar result={currentResult} imageSrc={currentImage} />}
+                                    </div>
+                                ) : (
+                                    <div className="text-center lg:text-left space-y-6 opacity-30 mt-20 lg:mt-0">
+                                        <div className="w-20 h-1 bg-cyan-400/50 rounded-full mx-auto lg:mx-0 blur-sm"></div>
+                                        <h3 className="text-4xl font-thin tracking-tighter text-white uppercase">
+                                            {activeTab === 'front' ? t.analyze.awaitingFront : t.analyze.awaitingSide}
+                                        </h3>
+                                        <p className="text-gray-400 text-sm max-w-xs font-light leading-relaxed">
+                                            {activeTab === 'front' ? t.analyze.frontHint : t.analyze.sideHint}
+                                        </p>
+                                    </div>
+                                )}
                             </div>
-                        ) : (
-                            <div className="text-center lg:text-left space-y-6 opacity-30 mt-20 lg:mt-0">
-                                <div className="w-20 h-1 bg-cyan-400/50 rounded-full mx-auto lg:mx-0 blur-sm"></div>
-                                <h3 className="text-4xl font-thin tracking-tighter text-white">
-                                    {activeTab === 'front' ? 'AWAITING INPUT' : 'SIDE PROFILE'}
-                                </h3>
-                                <p className="text-gray-400 text-sm max-w-xs font-light leading-relaxed">
-                                    {activeTab === 'front'
-                                        ? 'Upload a high-quality front facing photo. AI will scan 478+ facial landmarks.'
-                                        : 'Side profile analysis is currently in beta. Ensure distinct jawline visibility.'}
-                                </p>
+                        </div>
+
+                        {/* Combined Front + Side Report */}
+                        {combinedReport && (
+                            <div className="mt-16 w-full flex justify-center animate-in fade-in slide-in-from-bottom-8 duration-700">
+                                <CombinedReportCard report={combinedReport} />
                             </div>
                         )}
-                    </div>
-                </div>
+                    </>
+                )}
             </div>
 
             {/* Camera Modal */}
             {showCamera && (
                 <CameraCapture
                     onCapture={handleCameraCapture}
+                    onCaptureSeries={cameraSeries ? processSeries : undefined}
                     onClose={() => setShowCamera(false)}
                 />
             )}
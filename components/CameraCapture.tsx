@@ -1,14 +1,41 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { Camera, RefreshCw, X } from 'lucide-react';
+import { Camera, Check, RefreshCw, X, Activity } from 'lucide-react';
+import { MIN_SERIES_PHOTOS, MAX_SERIES_PHOTOS } from '@/lib/series';
+import { getDetector } from '@/lib/detector';
+import { drawAnalysis } from '@/lib/visualize';
+import { readFrame, sampleFrameQuality, LiveReadout } from '@/lib/live';
+import { QualityMetrics } from '@/lib/quality';
+import { useI18n } from '@/components/I18nProvider';
 
 interface CameraCaptureProps {
     onCapture: (imageSrc: string) => void;
     onClose: () => void;
+    // Series mode: collect several shots, then hand them over together
+    onCaptureSeries?: (imageSrcs: string[]) => void;
 }
 
-export const CameraCapture = ({ onCapture, onClose }: CameraCaptureProps) => {
+// Consecutive "ready" frames required before auto-capture (~0.5s at 30fps)
+const AUTO_CAPTURE_FRAMES = 15;
+// Quality is re-sampled every N frames, it barely changes between frames
+const QUALITY_EVERY = 10;
+
+const Readout = ({ label, value, ok }: { label: string; value: string; ok?: boolean }) => (
+    <div className="flex flex-col items-center">
+        <span className="text-[8px] uppercase tracking-widest text-gray-500">{label}</span>
+        <span className={`text-xs font-mono ${ok === false ? 'text-red-400' : ok ? 'text-cyan-400' : 'text-white'}`}>{value}</span>
+    </div>
+);
+
+export const CameraCapture = ({ onCapture, onClose, onCaptureSeries }: CameraCaptureProps) => {
+    const { t, number } = useI18n();
     const videoRef = useRef<HTMLVideoElement>(null);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState(false); // Camera access denied
+    const [shots, setShots] = useState<string[]>([]);
+    const overlayRef = useRef<HTMLCanvasElement>(null);
+    const [live, setLive] = useState(false);
+    const [autoCapture, setAutoCapture] = useState(true);
+    const [readout, setReadout] = useState<LiveReadout | null>(null);
+    const [liveStatus, setLiveStatus] = useState<'loadingModel' | 'liveUnavailable' | null>(null);
 
     useEffect(() => {
         let stream: MediaStream | null = null;
@@ -23,7 +50,7 @@ export const CameraCapture = ({ onCapture, onClose }: CameraCaptureProps) => {
                 }
             } catch (err) {
                 console.error("Camera access error:", err);
-                setError("Could not access camera. Please allow permissions.");
+                setError(true);
             }
         };
 
@@ -51,10 +78,105 @@ export const CameraCapture = ({ onCapture, onClose }: CameraCaptureProps) => {
             ctx.drawImage(videoRef.current, 0, 0);
 
             const imageSrc = canvas.toDataURL('image/jpeg');
-            onCapture(imageSrc);
+            if (!onCaptureSeries) {
+                onCapture(imageSrc);
+                return;
+            }
+
+            const next = [...shots, imageSrc];
+            if (next.length >= MAX_SERIES_PHOTOS) onCaptureSeries(next);
+            else setShots(next);
         }
     };
 
+    // The live loop outlives renders: always call the latest capture/autoCapture
+    const captureRef = useRef(capture);
+    captureRef.current = capture;
+    const autoCaptureRef = useRef(autoCapture);
+    autoCaptureRef.current = autoCapture;
+
+    useEffect(() => {
+        if (!live) return;
+
+        let frame = 0;
+        let cancelled = false;
+        let readyFrames = 0;
+        let quality: QualityMetrics | null = null;
+
+        const loop = async (detector: Awaited<ReturnType<typeof getDetector>>) => {
+            const video = videoRef.current;
+            const canvas = overlayRef.current;
+            if (cancelled) return;
+            if (!video || !canvas || video.readyState < 2) {
+                requestAnimationFrame(() => loop(detector));
+                return;
+            }
+
+            if (canvas.width !== video.videoWidth) {
+                canvas.width = video.videoWidth;
+                canvas.height = video.videoHeight;
+            }
+            if (frame++ % QUALITY_EVERY === 0) quality = sampleFrameQuality(video);
+
+            try {
+                const faces = await detector.estimateFaces(video, { staticImageMode: false });
+                if (cancelled) return;
+                const ctx = canvas.getContext('2d');
+
+                if (faces.length === 0 || !quality) {
+                    ctx?.clearRect(0, 0, canvas.width, canvas.height);
+                    setReadout(null);
+                    readyFrames = 0;
+                } else {
+                    if (ctx) drawAnalysis(ctx, faces[0].keypoints, canvas.width, canvas.height);
+                    const next = readFrame(faces[0].keypoints, quality);
+                    setReadout(next);
+
+                    readyFrames = next.ready ? readyFrames + 1 : 0;
+                    if (autoCaptureRef.current && readyFrames >= AUTO_CAPTURE_FRAMES) {
+                        readyFrames = 0;
+                        captureRef.current();
+                    }
+                }
+            } catch (err) {
+                // A detector that fails once keeps failing: stop the loop instead of retrying every frame
+                console.error("Live analysis stopped:", err);
+                setReadout(null);
+                setLiveStatus('liveUnavailable');
+                return;
+            }
+
+            requestAnimationFrame(() => loop(detector));
+        };
+
+        setLiveStatus('loadingModel');
+        getDetector()
+            .then(detector => {
+                if (cancelled) return;
+                setLiveStatus(null);
+                loop(detector);
+            })
+            .catch(err => {
+                console.error("Detector load error:", err);
+                setLiveStatus('liveUnavailable');
+            });
+
+        return () => {
+            cancelled = true;
+            setReadout(null);
+            const canvas = overlayRef.current;
+            canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        };
+    }, [live]);
+
+    const hint = !readout
+        ? t.camera.faceNotFound
+        : !readout.frontal
+            ? t.camera.lookStraight
+            : !readout.quality_ok
+                ? t.camera.improveQuality
+                : autoCapture ? t.camera.holdStill : t.camera.ready;
+
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm p-4">
             <div className="relative w-full max-w-2xl bg-gray-900 rounded-3xl overflow-hidden border border-white/10 shadow-2xl">
@@ -66,26 +188,78 @@ export const CameraCapture = ({ onCapture, onClose }: CameraCaptureProps) => {
 
                 <div className="relative aspect-video bg-black flex items-center justify-center">
                     {error ? (
-                        <p className="text-red-400">{error}</p>
+                        <p className="text-red-400">{t.camera.accessDenied}</p>
                     ) : (
-                        <video
-                            ref={videoRef}
-                            autoPlay
-                            playsInline
-                            className="w-full h-full object-cover transform -scale-x-100"
-                        />
+                        <>
+                            <video
+                                ref={videoRef}
+                                autoPlay
+                                playsInline
+                                className="w-full h-full object-cover transform -scale-x-100"
+                            />
+                            {/* Same fit and mirroring as the video so landmarks line up */}
+                            <canvas
+                                ref={overlayRef}
+                                className="absolute inset-0 w-full h-full object-cover transform -scale-x-100 pointer-events-none"
+                            />
+                        </>
+                    )}
+                    {live && (
+                        <div className="absolute top-4 left-4 px-3 py-1 rounded-full bg-black/60 text-[10px] uppercase tracking-widest text-gray-300">
+                            {liveStatus ? t.camera[liveStatus] : hint}
+                        </div>
                     )}
                 </div>
 
+                {live && readout && (
+                    <div className="grid grid-cols-5 gap-2 px-6 pt-4 bg-gray-900">
+                        <Readout label={t.camera.symmetry} value={`${number(readout.symmetry)}%`} />
+                        <Readout label={t.camera.tilt} value={`${number(readout.canthal_tilt, 1)}°`} />
+                        <Readout label={t.camera.thirds} value={readout.thirds.map(x => number(x)).join('/')} />
+                        <Readout label={t.camera.yawPitch} value={`${number(readout.pose.yaw)}°/${number(readout.pose.pitch)}°`} ok={readout.frontal} />
+                        <Readout label={t.camera.quality} value={readout.quality_ok ? t.camera.good : t.camera.low} ok={readout.quality_ok} />
+                    </div>
+                )}
+
                 <div className="p-6 flex justify-center gap-4 bg-gray-900">
+                    <button
+                        onClick={() => setLive(l => !l)}
+                        disabled={error}
+                        className={`flex items-center gap-2 px-5 py-3 rounded-full font-bold border transition-colors disabled:opacity-50 ${live ? 'border-cyan-400 text-cyan-400' : 'border-white/20 text-gray-400 hover:text-white'}`}
+                    >
+                        <Activity className="w-5 h-5" />
+                        <span className="uppercase">{t.camera.live}</span>
+                    </button>
+                    {live && (
+                        <button
+                            onClick={() => setAutoCapture(a => !a)}
+                            className={`flex items-center gap-2 px-5 py-3 rounded-full font-bold border transition-colors ${autoCapture ? 'border-cyan-400 text-cyan-400' : 'border-white/20 text-gray-400 hover:text-white'}`}
+                            title={t.camera.autoHint}
+                        >
+                            <RefreshCw className="w-5 h-5" />
+                            <span className="uppercase">{t.camera.auto}</span>
+                        </button>
+                    )}
                     <button
                         onClick={capture}
-                        disabled={!!error}
+                        disabled={error}
                         className="flex items-center gap-2 px-8 py-3 bg-white text-black rounded-full font-bold hover:bg-gray-200 transition-transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         <Camera className="w-5 h-5" />
-                        TAKE PHOTO
+                        <span className="uppercase">
+                            {onCaptureSeries ? t.camera.takeSeriesPhoto(shots.length + 1, MAX_SERIES_PHOTOS) : t.camera.takePhoto}
+                        </span>
                     </button>
+                    {onCaptureSeries && (
+                        <button
+                            onClick={() => onCaptureSeries(shots)}
+                            disabled={shots.length < MIN_SERIES_PHOTOS}
+                            className="flex items-center gap-2 px-8 py-3 bg-cyan-400 text-black rounded-full font-bold hover:bg-cyan-300 transition-transform active:scale-95 disabled:opacity-30 disabled:cursor-not-allowed"
+                        >
+                            <Check className="w-5 h-5" />
+                            <span className="uppercase">{t.camera.done(shots.length)}</span>
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,58 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { CombinedReport, ReportDisagreement } from '@/lib/combinedReport';
+import { MetricRow, DeepStat } from '@/components/ResultCard';
+import { useI18n } from '@/components/I18nProvider';
+
+// Scores are whole points; angles keep their tenth of a degree
+const digitsOf = (d: ReportDisagreement) => (d.unit === '%' ? 0 : 1);
+
+export const CombinedReportCard = ({ report }: { report: CombinedReport }) => {
+    const { t, number, signed } = useI18n();
+
+    return (
+        <div className="w-full max-w-3xl relative overflow-hidden backdrop-blur-2xl bg-black/40 border border-white/10 rounded-[2rem] p-8 shadow-2xl">
+            {/* Header / Score */}
+            <div className="text-center mb-10 relative">
+                <div className="absolute top-0 left-1/2 -translate-x-1/2 -translate-y-1/2 w-32 h-32 bg-cyan-500/20 blur-[60px] rounded-full pointer-events-none" />
+
+                <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-4">{t.combined.title}</h3>
+                <h2 className="text-8xl font-thin text-white tracking-tighter mb-6 relative z-10">
+                    {report.overall}
+                </h2>
+                <div className="grid grid-cols-2 gap-3 max-w-xs mx-auto">
+                    <DeepStat label={t.combined.front} value={report.front_overall} />
+                    <DeepStat label={t.combined.side} value={report.profile_overall} />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-10 gap-y-2">
+                {report.components.map(c => (
+                    <MetricRow
+                        key={c.key}
+                        label={t.combined.components[c.key]}
+                        subtext={`${Math.round(c.weight * 100)}% • ${t.combined.sources[c.source]}`}
+                        value={`${c.score}%`}
+                        score={c.score}
+                    />
+                ))}
+            </div>
+
+            {/* Disagreements between the two views */}
+            {report.disagreements.length > 0 && (
+                <div className="mt-8 space-y-2">
+                    <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-2 text-center">{t.combined.disagreementsTitle}</h3>
+                    {report.disagreements.map(d => (
+                        <div key={d.metric} className="flex items-center gap-3 text-amber-300 bg-amber-500/10 px-4 py-3 rounded-xl border border-amber-500/20 text-xs">
+                            <AlertTriangle className="w-4 h-4 shrink-0" />
+                            <span className="flex-1 text-left">{t.combined.disagreements[d.metric]}</span>
+                            <span className="font-light tracking-wide">
+                                {number(d.front, digitsOf(d))}{d.unit} / {number(d.profile, digitsOf(d))}{d.unit} (Δ {signed(d.front - d.profile, digitsOf(d))}{d.unit})
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
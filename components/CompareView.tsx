@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, Loader2, AlertCircle, AlertTriangle } from 'lucide-react';
+import { AnalysisResult } from '@/lib/analyzeFace';
+import { runFaceAnalysis } from '@/lib/analysisClient';
+import { computeAlignment, applyAlignment, mapToAligned } from '@/lib/alignment';
+import { compareResults, DeltaSignificance, MetricDelta } from '@/lib/compare';
+import { loadImage } from '@/lib/detector';
+import { drawAnalysis } from '@/lib/visualize';
+import { AnalysisError, toAnalysisError } from '@/lib/errors';
+import { sameExpression } from '@/lib/expression';
+import { describeError } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+const SIZE = 512;
+
+const SIGNIFICANCE_CLASSES: Record<DeltaSignificance, string> = {
+    noise: 'text-gray-600',
+    possible: 'text-yellow-500/80',
+    significant: 'text-cyan-400',
+};
+
+type Side = 'before' | 'after';
+
+// Draws the photo and its mesh into the shared aligned frame
+async function renderAligned(imageSrc: string, result: AnalysisResult, photo: HTMLCanvasElement, mesh: HTMLCanvasElement) {
+    if (!result.landmarks) return;
+    const img = await loadImage(imageSrc);
+    const alignment = computeAlignment(result.landmarks, SIZE);
+
+    const ctx = photo.getContext('2d');
+    if (ctx) {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, SIZE, SIZE);
+        applyAlignment(ctx, alignment);
+        ctx.drawImage(img, 0, 0);
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+    }
+    const meshCtx = mesh.getContext('2d');
+    if (meshCtx) drawAnalysis(meshCtx, result.landmarks.map(p => mapToAligned(p, alignment)), SIZE, SIZE);
+}
+
+const PhotoSlot = ({ label, image, onPick }: { label: string; image: string | null; onPick: (src: string) => void }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (event) => onPick(event.target?.result as string);
+        reader.readAsDataURL(file);
+    };
+
+    return (
+        <button
+            onClick={() => inputRef.current?.click()}
+            className="relative w-40 aspect-square rounded-2xl overflow-hidden border border-white/10 bg-white/5 hover:border-cyan-400/30 transition-colors flex items-center justify-center"
+        >
+            {image ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={image} alt={label} className="w-full h-full object-cover" />
+            ) : (
+                <Upload className="w-6 h-6 text-gray-500" />
+            )}
+            <span className="absolute bottom-2 left-2 text-[9px] uppercase tracking-widest bg-black/60 px-2 py-0.5 rounded-full">{label}</span>
+            <input type="file" ref={inputRef} className="hidden" accept="image/*" onChange={handleFile} />
+        </button>
+    );
+};
+
+// Overall is compared unrounded, to 0.1; the other scores are whole points
+const digitsOf = (key: MetricDelta['key']) => (key === 'overall' ? 1 : 0);
+
+export const CompareView = ({ scoringProfileId, normSetId }: { scoringProfileId?: string | null; normSetId?: string | null }) => {
+    const { t, number, signed } = useI18n();
+    const [images, setImages] = useState<Record<Side, string | null>>({ before: null, after: null });
+    const [results, setResults] = useState<Record<Side, AnalysisResult> | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<AnalysisError | null>(null);
+    const [mode, setMode] = useState<'slider' | 'onion'>('slider');
+    const [mix, setMix] = useState(50); // Slider position / onion opacity, percent
+
+    const photoRefs = { before: useRef<HTMLCanvasElement>(null), after: useRef<HTMLCanvasElement>(null) };
+    const meshRefs = { before: useRef<HTMLCanvasElement>(null), after: useRef<HTMLCanvasElement>(null) };
+
+    const pick = (side: Side) => (src: string) => {
+        setImages(prev => ({ ...prev, [side]: src }));
+        setResults(null);
+        setError(null);
+    };
+
+    const compare = async () => {
+        if (!images.before || !images.after) return;
+        setLoading(true);
+        setError(null);
+        try {
+            // One at a time: the worker runs jobs on a single detector anyway
+            const before = await runFaceAnalysis(images.before, { scoringProfileId, normSetId });
+            const after = await runFaceAnalysis(images.after, { scoringProfileId, normSetId });
+            setResults({ before, after });
+        } catch (err) {
+            console.error(err);
+            setError(toAnalysisError(err));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (!results) return;
+        (['before', 'after'] as Side[]).forEach(side => {
+            const src = images[side];
+            const photo = photoRefs[side].current;
+            const mesh = meshRefs[side].current;
+            if (src && photo && mesh) renderAligned(src, results[side], photo, mesh).catch(console.error);
+        });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [results]);
+
+    const deltas = results ? compareResults(results.before, results.after) : [];
+
+    return (
+        <div className="w-full max-w-4xl flex flex-col items-center gap-8">
+            <div className="flex items-center gap-6">
+                <PhotoSlot label={t.compare.before} image={images.before} onPick={pick('before')} />
+                <PhotoSlot label={t.compare.after} image={images.after} onPick={pick('after')} />
+            </div>
+
+            <button
+                onClick={compare}
+                disabled={!images.before || !images.after || loading}
+                className="px-10 py-4 rounded-xl font-bold tracking-widest text-xs uppercase bg-cyan-400 text-black hover:bg-cyan-300 transition-all disabled:bg-white/5 disabled:text-gray-600 disabled:cursor-not-allowed"
+            >
+                {loading ? (
+                    <span className="flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin" /> {t.compare.processing}</span>
+                ) : t.compare.compare}
+            </button>
+
+            {error && (
+                <div className="flex items-start gap-3 text-red-400 bg-red-500/10 px-6 py-4 rounded-xl border border-red-500/20">
+                    <AlertCircle className="w-5 h-5 shrink-0" />
+                    <div className="space-y-1 text-left">
+                        <p className="text-xs font-medium tracking-wide">{describeError(t, error).message}</p>
+                        <p className="text-[11px] text-red-300/80">{describeError(t, error).remediation}</p>
+                    </div>
+                </div>
+            )}
+
+            {results && (
+                <div className="w-full grid grid-cols-1 lg:grid-cols-2 gap-10 items-start">
+                    {/* Aligned overlay */}
+                    <div className="flex flex-col items-center gap-4">
+                        <div className="relative w-full max-w-sm aspect-square rounded-[2rem] overflow-hidden border border-white/10 bg-black">
+                            <canvas ref={photoRefs.before} width={SIZE} height={SIZE} className="absolute inset-0 w-full h-full" />
+                            <canvas ref={meshRefs.before} width={SIZE} height={SIZE} className="absolute inset-0 w-full h-full opacity-80" />
+                            <div
+                                className="absolute inset-0"
+                                style={mode === 'slider' ? { clipPath: `inset(0 0 0 ${mix}%)` } : { opacity: mix / 100 }}
+                            >
+                                <canvas ref={photoRefs.after} width={SIZE} height={SIZE} className="absolute inset-0 w-full h-full" />
+                                {/* Hue-shifted so the two meshes stay distinguishable */}
+                                <canvas ref={meshRefs.after} width={SIZE} height={SIZE} className="absolute inset-0 w-full h-full opacity-80" style={{ filter: 'hue-rotate(150deg)' }} />
+                            </div>
+                            {mode === 'slider' && (
+                                <div className="absolute inset-y-0 w-px bg-cyan-400 pointer-events-none" style={{ left: `${mix}%` }} />
+                            )}
+                        </div>
+
+                        <div className="flex items-center gap-4 w-full max-w-sm">
+                            <div className="flex p-1 bg-white/5 rounded-full border border-white/10">
+                                {(['slider', 'onion'] as const).map(m => (
+                                    <button
+                                        key={m}
+                                        onClick={() => setMode(m)}
+                                        className={`px-4 py-1 rounded-full text-[10px] uppercase tracking-widest ${mode === m ? 'bg-cyan-400 text-black' : 'text-gray-500'}`}
+                                    >
+                                        {t.compare[m]}
+                                    </button>
+                                ))}
+                            </div>
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={mix}
+                                onChange={e => setMix(Number(e.target.value))}
+                                className="flex-1 accent-cyan-400"
+                            />
+                        </div>
+                    </div>
+
+                    {/* Delta table */}
+                    <div className="w-full backdrop-blur-2xl bg-black/40 border border-white/10 rounded-[2rem] p-8">
+                        {!sameExpression(results.before.expression, results.after.expression) && (
+                            <div className="flex items-center gap-3 text-amber-300 bg-amber-500/10 px-4 py-3 rounded-xl border border-amber-500/20 text-xs mb-4">
+                                <AlertTriangle className="w-4 h-4 shrink-0" />
+                                {t.compare.expressionMismatch(
+                                    t.expressions[results.before.expression?.label ?? 'neutral'],
+                                    t.expressions[results.after.expression?.label ?? 'neutral'],
+                                )}
+                            </div>
+                        )}
+                        <div className="grid grid-cols-[1fr_3rem_3rem_3.5rem_6rem] gap-2 pb-2 mb-1 border-b border-white/10 text-[9px] uppercase tracking-widest text-gray-600">
+                            <span className="text-left">{t.result.metric}</span>
+                            <span className="text-right">{t.compare.before}</span>
+                            <span className="text-right">{t.compare.after}</span>
+                            <span className="text-right">Δ</span>
+                            <span className="text-right">{t.compare.significance}</span>
+                        </div>
+                        {deltas.map(d => (
+                            <div key={d.key} className="grid grid-cols-[1fr_3rem_3rem_3.5rem_6rem] gap-2 py-2 border-b border-white/5 text-xs">
+                                <span className="text-gray-400 text-left">{t.scores[d.key]}</span>
+                                <span className="text-right text-gray-300">{number(d.before, digitsOf(d.key))}</span>
+                                <span className="text-right text-white">{number(d.after, digitsOf(d.key))}</span>
+                                <span className={`text-right ${d.delta > 0 ? 'text-cyan-400' : d.delta < 0 ? 'text-red-400' : 'text-gray-600'}`}>
+                                    {signed(d.delta, digitsOf(d.key))}
+                                </span>
+                                <span className={`text-right text-[10px] ${SIGNIFICANCE_CLASSES[d.significance]}`} title={`±${number(d.noise, digitsOf(d.key))}`}>
+                                    {t.compare.levels[d.significance]}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Image as ImageIcon, FileText, Braces, Loader2 } from 'lucide-react';
+import { AnalysisResult } from '@/lib/analyzeFace';
+import { ProfileAnalysisResult } from '@/lib/analyzeProfile';
+import { renderShareCard, renderPdfReport, exportJSON, downloadBlob } from '@/lib/export';
+import { AnalysisError, toAnalysisError } from '@/lib/errors';
+import { describeError } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+type Format = 'png' | 'pdf' | 'json';
+
+const FORMATS: { format: Format; label: 'card' | 'pdf' | 'json'; icon: React.ElementType }[] = [
+    { format: 'png', label: 'card', icon: ImageIcon },
+    { format: 'pdf', label: 'pdf', icon: FileText },
+    { format: 'json', label: 'json', icon: Braces },
+];
+
+// Export buttons under a result; everything is rendered in the browser
+export const ExportBar = ({ result, imageSrc }: { result: AnalysisResult | ProfileAnalysisResult; imageSrc: string }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const [busy, setBusy] = useState<Format | null>(null);
+    const [error, setError] = useState<AnalysisError | null>(null);
+
+    const handleExport = async (format: Format) => {
+        setBusy(format);
+        setError(null);
+        try {
+            const name = `looksrate-${result.view}-${new Date().toISOString().slice(0, 10)}`;
+            if (format === 'png') downloadBlob(await renderShareCard(imageSrc, result, i18n), `${name}.png`);
+            else if (format === 'pdf') downloadBlob(await renderPdfReport(imageSrc, result, i18n), `${name}.pdf`);
+            else downloadBlob(exportJSON(result), `${name}.json`);
+        } catch (err) {
+            console.error("Export error:", err);
+            setError(toAnalysisError(err));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-md mt-4">
+            <div className="flex gap-2">
+                {FORMATS.map(({ format, label, icon: Icon }) => (
+                    <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        disabled={busy !== null}
+                        className="flex-1 flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white py-3 rounded-xl font-bold transition-all border border-white/10 disabled:opacity-40 disabled:cursor-not-allowed text-[10px] tracking-widest uppercase"
+                    >
+                        {busy === format ? <Loader2 className="w-3 h-3 animate-spin" /> : <Icon className="w-3 h-3" />}
+                        {t.exports[label]}
+                    </button>
+                ))}
+            </div>
+            {error && <p className="mt-2 text-[11px] text-red-400 text-center">{describeError(t, error).message}</p>}
+        </div>
+    );
+};
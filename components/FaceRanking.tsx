@@ -0,0 +1,48 @@
+import React from 'react';
+import { AnalysisResult } from '@/lib/analyzeFace';
+import { AnalysisError } from '@/lib/errors';
+import { describeError } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+export interface FaceRankEntry {
+    face: number; // 0-based, in the order of the picker boxes
+    result?: AnalysisResult;
+    error?: AnalysisError;
+}
+
+const KEY_SCORES = ['symmetry', 'harmony', 'jawline'] as const;
+
+// Every face of a group photo, best overall first; failed faces go last
+export const FaceRanking = ({ entries, selected, onSelect }: { entries: FaceRankEntry[]; selected: number | null; onSelect: (entry: FaceRankEntry) => void }) => {
+    const { t } = useI18n();
+    const ranked = [...entries].sort((a, b) => (b.result?.overall ?? -1) - (a.result?.overall ?? -1));
+
+    return (
+        <div className="w-full max-w-md backdrop-blur-2xl bg-black/40 border border-white/10 rounded-[2rem] p-6 shadow-2xl">
+            <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-4 text-center">{t.ranking.title}</h3>
+            <div className="space-y-2">
+                {ranked.map((entry, rank) => (
+                    <button
+                        key={entry.face}
+                        onClick={() => entry.result && onSelect(entry)}
+                        disabled={!entry.result}
+                        className={`w-full grid grid-cols-[2rem_1fr_auto] items-center gap-3 px-4 py-3 rounded-xl border text-left transition-colors disabled:cursor-not-allowed ${entry.face === selected ? 'border-cyan-400/50 bg-cyan-400/10' : 'border-white/5 bg-white/5 hover:border-white/20'}`}
+                    >
+                        <span className="text-xs text-gray-500">#{entry.result ? rank + 1 : '—'}</span>
+                        <span className="flex flex-col">
+                            <span className="text-[10px] uppercase tracking-widest text-gray-300">{t.ranking.face(entry.face + 1)}</span>
+                            <span className="text-[9px] text-gray-500">
+                                {entry.result
+                                    ? KEY_SCORES.map(key => `${t.scores[key]} ${entry.result!.scores[key]}%`).join(' • ')
+                                    : entry.error && describeError(t, entry.error).message}
+                            </span>
+                        </span>
+                        <span className={`text-2xl font-thin ${entry.result ? 'text-white' : 'text-gray-700'}`}>
+                            {entry.result?.overall ?? '—'}
+                        </span>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { useI18n } from '@/components/I18nProvider';
+
+const Section = ({ title, entries }: { title: string; entries: [string, string][] }) => (
+    <div className="backdrop-blur-2xl bg-black/40 border border-white/10 rounded-[2rem] p-8">
+        <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-6 text-center">{title}</h3>
+        <dl className="space-y-4 text-left">
+            {entries.map(([name, description]) => (
+                <div key={name}>
+                    <dt className="text-[10px] font-bold uppercase tracking-widest text-cyan-400">{name}</dt>
+                    <dd className="mt-1 text-xs text-gray-400 font-light leading-relaxed">{description}</dd>
+                </div>
+            ))}
+        </dl>
+    </div>
+);
+
+// What each score and measurement means; names come from the same catalog as the result cards
+export const Glossary = () => {
+    const { t } = useI18n();
+    const { glossary } = t;
+
+    const scores = (Object.keys(glossary.scores) as (keyof typeof glossary.scores)[]).map((key): [string, string] => [
+        key === 'potential' ? t.result.potential : t.scores[key],
+        glossary.scores[key],
+    ]);
+    const profile = (Object.keys(glossary.profile) as (keyof typeof glossary.profile)[]).map((key): [string, string] => [
+        t.profileScores[key],
+        glossary.profile[key],
+    ]);
+    const measurements = (Object.keys(glossary.measurements) as (keyof typeof glossary.measurements)[]).map((key): [string, string] => [
+        t.measurements[key],
+        glossary.measurements[key],
+    ]);
+    const skin = (Object.keys(glossary.skin) as (keyof typeof glossary.skin)[]).map((key): [string, string] => [
+        t.skin[key],
+        glossary.skin[key],
+    ]);
+
+    return (
+        <div className="w-full max-w-4xl space-y-10">
+            <div className="text-center space-y-2">
+                <h2 className="text-4xl font-thin tracking-tighter uppercase">{glossary.title}</h2>
+                <p className="text-gray-400 text-sm font-light">{glossary.intro}</p>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-10 items-start">
+                <Section title={glossary.sections.scores} entries={scores} />
+                <div className="space-y-10">
+                    <Section title={glossary.sections.profile} entries={profile} />
+                    <Section title={glossary.sections.measurements} entries={measurements} />
+                    <Section title={glossary.sections.skin} entries={skin} />
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Trash2, AlertTriangle, AlertCircle } from 'lucide-react';
+import { HistoryEntry, HistoryMetric, HISTORY_METRICS, listHistory, deleteFromHistory } from '@/lib/history';
+import { sameExpression } from '@/lib/expression';
+import { Translator } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+const formatMetric = (i18n: Translator, metric: HistoryMetric, value: number | null) =>
+    value === null ? '—' : metric.unit === '%' ? `${value}%` : i18n.number(value, 1);
+
+// Minimal SVG line chart of one metric over time
+const MetricChart = ({ entries, metric }: { entries: HistoryEntry[]; metric: HistoryMetric }) => {
+    const { t } = useI18n();
+    const points = entries
+        .map(e => ({ t: e.created_at, v: metric.get(e.result) }))
+        .filter((p): p is { t: number; v: number } => p.v !== null);
+
+    if (points.length < 2) {
+        return <p className="text-xs text-gray-600 py-12">{t.history.needTwo}</p>;
+    }
+
+    const W = 600, H = 180, PAD = 24;
+    const max = metric.unit === '%' ? 100 : 10;
+    const t0 = points[0].t;
+    const span = points[points.length - 1].t - t0 || 1;
+    const x = (t: number) => PAD + ((t - t0) / span) * (W - 2 * PAD);
+    const y = (v: number) => H - PAD - (v / max) * (H - 2 * PAD);
+
+    return (
+        <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto">
+            {[0.25, 0.5, 0.75, 1].map(f => (
+                <line key={f} x1={PAD} x2={W - PAD} y1={y(max * f)} y2={y(max * f)} stroke="rgba(255,255,255,0.05)" />
+            ))}
+            <polyline
+                fill="none"
+                stroke="#22d3ee"
+                strokeWidth={2}
+                points={points.map(p => `${x(p.t)},${y(p.v)}`).join(' ')}
+            />
+            {points.map(p => (
+                <g key={p.t}>
+                    <circle cx={x(p.t)} cy={y(p.v)} r={3} fill="#fff" />
+                    <text x={x(p.t)} y={y(p.v) - 8} textAnchor="middle" fontSize={10} fill="rgba(255,255,255,0.5)">{p.v}</text>
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+const CompareEntries = ({ a, b }: { a: HistoryEntry; b: HistoryEntry }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const [older, newer] = a.created_at <= b.created_at ? [a, b] : [b, a];
+    const rows = HISTORY_METRICS
+        .map(metric => ({ metric, before: metric.get(older.result), after: metric.get(newer.result) }))
+        .filter(row => row.before !== null || row.after !== null);
+
+    return (
+        <div className="w-full">
+            <div className="grid grid-cols-2 gap-6 mb-6">
+                {[older, newer].map(entry => (
+                    <div key={entry.id} className="flex flex-col items-center gap-2">
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img src={entry.thumbnail} alt="" className="w-32 h-32 object-cover rounded-2xl border border-white/10" />
+                        <span className="text-[10px] uppercase tracking-widest text-gray-500">{i18n.date(entry.created_at)}</span>
+                    </div>
+                ))}
+            </div>
+
+            {older.scoring_profile !== newer.scoring_profile && (
+                <div className="flex items-center gap-3 text-amber-300 bg-amber-500/10 px-4 py-3 rounded-xl border border-amber-500/20 text-xs mb-4">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    {t.history.scoringMismatch(older.scoring_profile ?? '—', newer.scoring_profile ?? '—')}
+                </div>
+            )}
+            {older.result.view === 'front' && newer.result.view === 'front' && !sameExpression(older.result.expression, newer.result.expression) && (
+                <div className="flex items-center gap-3 text-amber-300 bg-amber-500/10 px-4 py-3 rounded-xl border border-amber-500/20 text-xs mb-4">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    {t.history.expressionMismatch(
+                        t.expressions[older.result.expression?.label ?? 'neutral'],
+                        t.expressions[newer.result.expression?.label ?? 'neutral'],
+                    )}
+                </div>
+            )}
+
+            <div className="space-y-1">
+                {rows.map(({ metric, before, after }) => {
+                    const delta = before !== null && after !== null ? Math.round((after - before) * 10) / 10 : null;
+                    return (
+                        <div key={metric.key} className="grid grid-cols-[1fr_4rem_4rem_4rem] gap-2 py-2 border-b border-white/5 text-xs">
+                            <span className="text-gray-400 text-left">{t.history.metrics[metric.key]}</span>
+                            <span className="text-right text-gray-300">{formatMetric(i18n, metric, before)}</span>
+                            <span className="text-right text-white">{formatMetric(i18n, metric, after)}</span>
+                            <span className={`text-right ${delta === null || delta === 0 ? 'text-gray-600' : delta > 0 ? 'text-cyan-400' : 'text-red-400'}`}>
+                                {delta === null ? '' : i18n.signed(delta, metric.unit === '%' ? 0 : 1)}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export const HistoryView = () => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+    const [metricKey, setMetricKey] = useState(HISTORY_METRICS[0].key);
+    const [selected, setSelected] = useState<number[]>([]);
+    const [removeFailed, setRemoveFailed] = useState(false);
+
+    useEffect(() => {
+        listHistory()
+            .then(setEntries)
+            .catch(err => {
+                console.error("History load error:", err);
+                setEntries([]);
+            });
+    }, []);
+
+    // Only offer metrics that were actually measured at least once
+    const availableMetrics = useMemo(
+        () => HISTORY_METRICS.filter(m => entries?.some(e => m.get(e.result) !== null)),
+        [entries]
+    );
+    // A side-only history has no front overall: start from the first metric it has
+    const metric = availableMetrics.find(m => m.key === metricKey) ?? availableMetrics[0] ?? HISTORY_METRICS[0];
+
+    // Chart like-for-like only: the latest measurement's expression and scoring version
+    const { charted, hiddenByExpression, hiddenByScoring, scoringReference } = useMemo(() => {
+        const measured = (entries ?? []).filter(e => metric.get(e.result) !== null);
+        const latest = measured[measured.length - 1];
+        const expression = latest?.result.view === 'front' ? latest.result.expression : undefined;
+        const sameExpressionAsLatest = measured.filter(e => e.result.view !== 'front' || sameExpression(e.result.expression, expression));
+        const sameScoring = sameExpressionAsLatest.filter(e => e.scoring_profile === latest?.scoring_profile);
+        return {
+            charted: sameScoring,
+            hiddenByExpression: measured.length - sameExpressionAsLatest.length,
+            hiddenByScoring: sameExpressionAsLatest.length - sameScoring.length,
+            scoringReference: latest?.scoring_profile ?? null,
+        };
+    }, [entries, metric]);
+
+    // Keep the two most recent picks
+    const toggle = (id: number) =>
+        setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2)));
+
+    const remove = async (id: number) => {
+        try {
+            await deleteFromHistory(id);
+        } catch (err) {
+            console.error("History delete error:", err);
+            setRemoveFailed(true);
+            return;
+        }
+        setRemoveFailed(false);
+        setEntries(prev => prev?.filter(e => e.id !== id) ?? null);
+        setSelected(prev => prev.filter(x => x !== id));
+    };
+
+    if (!entries) return null;
+    if (entries.length === 0) {
+        return (
+            <div className="text-center space-y-4 opacity-40 py-20">
+                <h3 className="text-4xl font-thin tracking-tighter uppercase">{t.history.empty}</h3>
+                <p className="text-gray-400 text-sm font-light">{t.history.emptyHint}</p>
+            </div>
+        );
+    }
+
+    const compared = selected.map(id => entries.find(e => e.id === id)).filter((e): e is HistoryEntry => !!e);
+
+    return (
+        <div className="w-full max-w-4xl space-y-10">
+            {/* Metric over time */}
+            <div className="backdrop-blur-2xl bg-black/40 border border-white/10 rounded-[2rem] p-8">
+                <div className="flex flex-wrap justify-center gap-2 mb-6">
+                    {availableMetrics.map(m => (
+                        <button
+                            key={m.key}
+                            onClick={() => setMetricKey(m.key)}
+                            className={`px-3 py-1 rounded-full text-[10px] uppercase tracking-widest border transition-colors ${m.key === metric.key ? 'border-cyan-400 text-cyan-400' : 'border-white/10 text-gray-500 hover:text-white'}`}
+                        >
+                            {t.history.metrics[m.key]}
+                        </button>
+                    ))}
+                </div>
+                <MetricChart entries={charted} metric={metric} />
+                {hiddenByExpression > 0 && (
+                    <p className="text-[10px] text-gray-600 mt-2">
+                        {t.history.hiddenByExpression(hiddenByExpression)}
+                    </p>
+                )}
+                {hiddenByScoring > 0 && (
+                    <p className="text-[10px] text-gray-600 mt-2">
+                        {t.history.hiddenByScoring(hiddenByScoring, scoringReference ?? '—')}
+                    </p>
+                )}
+            </div>
+
+            {/* Side-by-side compare */}
+            {compared.length === 2 && (
+                <div className="backdrop-blur-2xl bg-black/40 border border-white/10 rounded-[2rem] p-8">
+                    <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-6 text-center">{t.history.compareTitle}</h3>
+                    <CompareEntries a={compared[0]} b={compared[1]} />
+                </div>
+            )}
+
+            {/* Entries, newest first */}
+            <div>
+                <p className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-4">{t.history.selectTwo}</p>
+                {removeFailed && (
+                    <div className="flex items-center gap-3 text-red-400 bg-red-500/10 px-4 py-3 rounded-xl border border-red-500/20 text-xs mb-4">
+                        <AlertCircle className="w-4 h-4 shrink-0" />
+                        {t.history.removeFailed}
+                    </div>
+                )}
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                    {[...entries].reverse().map(entry => (
+                        <div
+                            key={entry.id}
+                            onClick={() => toggle(entry.id)}
+                            className={`relative cursor-pointer rounded-2xl overflow-hidden border transition-colors ${selected.includes(entry.id) ? 'border-cyan-400' : 'border-white/10 hover:border-white/30'}`}
+                        >
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img src={entry.thumbnail} alt="" className="w-full aspect-square object-cover" />
+                            <div className="absolute inset-x-0 bottom-0 bg-black/70 px-3 py-2 text-left">
+                                <div className="flex items-baseline justify-between">
+                                    <span className="text-lg font-thin">{entry.result.overall}</span>
+                                    <span className="text-[9px] uppercase tracking-widest text-gray-400">{entry.result.view === 'front' ? t.history.front : t.history.side}</span>
+                                </div>
+                                <div className="text-[9px] text-gray-500">{i18n.date(entry.created_at)} • {entry.scoring_profile ?? t.history.profileScoring}</div>
+                            </div>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); remove(entry.id); }}
+                                className="absolute top-2 right-2 p-1.5 bg-black/60 rounded-full text-gray-400 hover:text-red-400 transition-colors"
+                                title={t.history.remove}
+                            >
+                                <Trash2 className="w-3 h-3" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,43 @@
+"use client";
+
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { createTranslator, detectLocale, isLocale, Locale, Translator, DEFAULT_LOCALE } from '@/lib/i18n';
+
+const STORAGE_KEY = 'looksrate.locale';
+
+interface I18nContextValue extends Translator {
+    setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// Picks the saved language, else the browser's, and keeps <html lang> in sync
+export const I18nProvider = ({ children }: { children: React.ReactNode }) => {
+    // Server render and first paint use the default so hydration matches
+    const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+    useEffect(() => {
+        const saved = window.localStorage.getItem(STORAGE_KEY);
+        setLocaleState(isLocale(saved) ? saved : detectLocale(navigator.languages ?? [navigator.language]));
+    }, []);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const value = useMemo<I18nContextValue>(() => ({
+        ...createTranslator(locale),
+        setLocale: next => {
+            setLocaleState(next);
+            window.localStorage.setItem(STORAGE_KEY, next);
+        },
+    }), [locale]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+    const context = useContext(I18nContext);
+    if (!context) throw new Error('useI18n must be used inside <I18nProvider>');
+    return context;
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileJson, Upload, AlertCircle } from 'lucide-react';
+import { AnalysisExport } from '@/lib/export';
+import { parseAnalysisExport, rescoreResult } from '@/lib/importResult';
+import { SCORING_PROFILES, getScoringProfile, formatProfileVersion } from '@/lib/scoring';
+import { NORM_SETS, getNormSet } from '@/lib/norms';
+import { drawAnalysis, drawProfileAnalysis } from '@/lib/visualize';
+import { AnalysisError, toAnalysisError } from '@/lib/errors';
+import { describeError, normSetLabel, scoringProfileLabel } from '@/lib/i18n';
+import { ResultCard } from '@/components/ResultCard';
+import { ExportBar } from '@/components/ExportBar';
+import { useI18n } from '@/components/I18nProvider';
+
+const SELECT_CLASS = "bg-white/5 border border-white/10 rounded-full px-4 py-2 text-xs tracking-widest uppercase text-gray-300 focus:outline-none focus:border-cyan-400/50";
+
+const readFile = (file: File, as: 'text' | 'dataURL') => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = reject;
+    if (as === 'text') reader.readAsText(file);
+    else reader.readAsDataURL(file);
+});
+
+// Re-scores an exported JSON under the chosen profile and norms; the photo is optional
+export const ImportView = ({ scoringProfileId }: { scoringProfileId?: string | null }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const [imported, setImported] = useState<AnalysisExport | null>(null);
+    const [image, setImage] = useState<string | null>(null);
+    const [profileId, setProfileId] = useState(getScoringProfile(scoringProfileId).id);
+    const [normSetId, setNormSetId] = useState<string>(NORM_SETS[0].id);
+    const [error, setError] = useState<AnalysisError | null>(null);
+    const [imageVersion, setImageVersion] = useState(0);
+
+    const jsonInputRef = useRef<HTMLInputElement>(null);
+    const imageInputRef = useRef<HTMLInputElement>(null);
+    const imageRef = useRef<HTMLImageElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    const handleJson = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            const data = parseAnalysisExport(await readFile(file, 'text'));
+            setImported(data);
+            // Start from the norms the file was scored against
+            setNormSetId(getNormSet(data.result.norm_set).id);
+        } catch (err) {
+            setImported(null);
+            setError(toAnalysisError(err));
+        }
+    };
+
+    const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) setImage(await readFile(file, 'dataURL'));
+    };
+
+    // Scoring only: cheap enough to re-run on every selection change
+    const rescored = useMemo(() => {
+        if (!imported) return null;
+        try {
+            return rescoreResult(imported.result, { scoringProfile: getScoringProfile(profileId), norms: getNormSet(normSetId) });
+        } catch (err) {
+            return toAnalysisError(err);
+        }
+    }, [imported, profileId, normSetId]);
+
+    const result = rescored instanceof AnalysisError ? null : rescored;
+    const shownError = rescored instanceof AnalysisError ? rescored : error;
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const img = imageRef.current;
+        if (!result?.landmarks || !canvas || !img) return;
+
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        if (result.view === 'profile') {
+            drawProfileAnalysis(ctx, result.landmarks, canvas.width, canvas.height, result.visible_side);
+        } else {
+            drawAnalysis(ctx, result.landmarks, canvas.width, canvas.height);
+        }
+    }, [result, imageVersion]);
+
+    const original = imported?.result;
+
+    return (
+        <div className="w-full grid grid-cols-1 lg:grid-cols-2 gap-16 items-start">
+            <div className="flex flex-col items-center space-y-6">
+                <div className="relative w-full aspect-square max-w-sm rounded-[2rem] overflow-hidden border border-white/10 bg-white/5 flex items-center justify-center shadow-2xl">
+                    {image ? (
+                        <div className="relative inline-block max-w-full max-h-full">
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img
+                                ref={imageRef}
+                                src={image}
+                                alt={t.importer.original}
+                                className="max-w-full max-h-full block object-contain"
+                                onLoad={() => setImageVersion(v => v + 1)}
+                            />
+                            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none opacity-80" />
+                        </div>
+                    ) : (
+                        <button onClick={() => imageInputRef.current?.click()} className="flex flex-col items-center gap-4 text-gray-500 hover:text-cyan-400 transition-colors">
+                            <Upload className="w-8 h-8" />
+                            <span className="text-[10px] font-bold uppercase tracking-widest">{t.importer.originalPhoto}</span>
+                        </button>
+                    )}
+                    <input type="file" ref={imageInputRef} className="hidden" accept="image/*" onChange={handleImage} />
+                    <input type="file" ref={jsonInputRef} className="hidden" accept="application/json,.json" onChange={handleJson} />
+                </div>
+
+                <button
+                    onClick={() => jsonInputRef.current?.click()}
+                    className="w-full max-w-sm flex items-center justify-center gap-2 py-4 rounded-xl font-bold tracking-widest text-xs uppercase bg-cyan-400 text-black hover:bg-cyan-300 transition-all"
+                >
+                    <FileJson className="w-4 h-4" />
+                    {imported ? t.importer.loadAnother : t.importer.loadJson}
+                </button>
+
+                {imported && (
+                    <div className="w-full max-w-sm flex flex-col gap-3">
+                        {original?.view === 'front' && (
+                            <select value={profileId} onChange={(e) => setProfileId(e.target.value)} className={SELECT_CLASS}>
+                                {Object.values(SCORING_PROFILES).map(p => (
+                                    <option key={p.id} value={p.id} className="bg-gray-900">{scoringProfileLabel(t, p)} ({formatProfileVersion(p)})</option>
+                                ))}
+                            </select>
+                        )}
+                        <select value={normSetId} onChange={(e) => setNormSetId(e.target.value)} className={SELECT_CLASS}>
+                            {NORM_SETS.map(n => (
+                                <option key={n.id} value={n.id} className="bg-gray-900">{normSetLabel(t, n.id)}</option>
+                            ))}
+                        </select>
+                        <p className="text-[10px] uppercase tracking-widest text-gray-500">
+                            {t.importer.exported(i18n.date(Date.parse(imported.exported_at)), original?.overall ?? '—')}
+                            {original?.view === 'front' && ` • ${original.scoring_profile}`}
+                        </p>
+                    </div>
+                )}
+
+                {shownError && (
+                    <div className="flex items-start gap-3 text-red-400 bg-red-500/10 px-6 py-4 rounded-xl border border-red-500/20 backdrop-blur-md">
+                        <AlertCircle className="w-5 h-5 shrink-0" />
+                        <div className="space-y-1 text-left">
+                            <p className="text-xs font-medium tracking-wide">{describeError(t, shownError).message}</p>
+                            <p className="text-[11px] text-red-300/80">{describeError(t, shownError).remediation}</p>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-col items-center lg:items-start">
+                {result ? (
+                    <>
+                        <ResultCard result={result} />
+                        {image && <ExportBar result={result} imageSrc={image} />}
+                    </>
+                ) : (
+                    <div className="text-center lg:text-left space-y-6 opacity-30 mt-20 lg:mt-0">
+                        <h3 className="text-4xl font-thin tracking-tighter text-white uppercase">{t.importer.title}</h3>
+                        <p className="text-gray-400 text-sm max-w-xs font-light leading-relaxed">
+                            {t.importer.hint}
+                        </p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,260 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Undo2, Redo2, RotateCcw, Check, X } from 'lucide-react';
+import { AnalysisResult } from '@/lib/analyzeFace';
+import { ProfileAnalysisResult } from '@/lib/analyzeProfile';
+import { applyEdits, editableLandmarks, rescoreWithEdits, LandmarkEdits } from '@/lib/landmarkEdit';
+import { drawAnalysis, drawProfileAnalysis } from '@/lib/visualize';
+import { AnalysisError, toAnalysisError } from '@/lib/errors';
+import { describeError } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+type AnyResult = AnalysisResult | ProfileAnalysisResult;
+
+const HANDLE_RADIUS = 6; // Screen pixels
+const HIT_RADIUS = 14;
+const MAGNIFIER_SIZE = 128;
+const MAGNIFIER_ZOOM = 4;
+
+interface EditHistory {
+    past: LandmarkEdits[];
+    present: LandmarkEdits;
+    future: LandmarkEdits[];
+}
+
+interface LandmarkEditorProps {
+    imageSrc: string;
+    base: AnyResult; // Result the edits are applied to
+    onChange: (result: AnyResult) => void; // Live, on every move
+    onDone: () => void;
+    onCancel: () => void;
+}
+
+// Drag the metric landmarks on the photo; scores follow live
+export const LandmarkEditor = ({ imageSrc, base, onChange, onDone, onCancel }: LandmarkEditorProps) => {
+    const { t } = useI18n();
+    const [history, setHistory] = useState<EditHistory>({ past: [], present: {}, future: [] });
+    const [active, setActive] = useState<number | null>(null); // Landmark being dragged
+    const [hover, setHover] = useState<number | null>(null);
+    const [imageVersion, setImageVersion] = useState(0);
+
+    const imageRef = useRef<HTMLImageElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const magnifierRef = useRef<HTMLCanvasElement>(null);
+    const dragStart = useRef<LandmarkEdits | null>(null);
+
+    const editable = useMemo(() => editableLandmarks(base), [base]);
+    const landmarks = useMemo(() => applyEdits(base.landmarks ?? [], history.present), [base, history.present]);
+
+    // Keep the last valid result while the points are in an impossible position
+    const rescored = useMemo((): AnyResult | AnalysisError => {
+        try {
+            return rescoreWithEdits(base, history.present);
+        } catch (err) {
+            return toAnalysisError(err);
+        }
+    }, [base, history.present]);
+
+    useEffect(() => {
+        if (!(rescored instanceof AnalysisError)) onChange(rescored);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [rescored]);
+
+    // Source pixels per screen pixel
+    const scale = () => {
+        const canvas = canvasRef.current;
+        return canvas ? canvas.width / canvas.getBoundingClientRect().width : 1;
+    };
+
+    const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const s = scale();
+        return { x: (e.clientX - rect.left) * s, y: (e.clientY - rect.top) * s };
+    };
+
+    const nearest = (p: { x: number; y: number }) => {
+        const limit = HIT_RADIUS * scale();
+        let best: number | null = null;
+        let bestDist = limit;
+        editable.forEach(index => {
+            const d = Math.hypot(landmarks[index].x - p.x, landmarks[index].y - p.y);
+            if (d < bestDist) {
+                best = index;
+                bestDist = d;
+            }
+        });
+        return best;
+    };
+
+    // Mesh, handles and (while dragging) the magnifier
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const img = imageRef.current;
+        if (!canvas || !img || !img.naturalWidth) return;
+
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        if (base.view === 'profile') {
+            drawProfileAnalysis(ctx, landmarks, canvas.width, canvas.height, base.visible_side);
+        } else {
+            drawAnalysis(ctx, landmarks, canvas.width, canvas.height);
+        }
+
+        const s = scale();
+        const manual = new Set([...(base.manual_landmarks ?? []), ...Object.keys(history.present).map(Number)]);
+        editable.forEach(index => {
+            const p = landmarks[index];
+            ctx.beginPath();
+            ctx.arc(p.x, p.y, HANDLE_RADIUS * s * (index === active || index === hover ? 1.5 : 1), 0, 2 * Math.PI);
+            ctx.fillStyle = manual.has(index) ? '#FF0055' : '#00F0FF';
+            ctx.fill();
+            ctx.lineWidth = 1.5 * s;
+            ctx.strokeStyle = '#000';
+            ctx.stroke();
+        });
+
+        const magnifier = magnifierRef.current?.getContext('2d');
+        if (magnifier && active !== null) {
+            const p = landmarks[active];
+            const src = MAGNIFIER_SIZE / MAGNIFIER_ZOOM;
+            magnifier.imageSmoothingEnabled = false;
+            magnifier.fillStyle = '#000';
+            magnifier.fillRect(0, 0, MAGNIFIER_SIZE, MAGNIFIER_SIZE);
+            magnifier.drawImage(img, p.x - src / 2, p.y - src / 2, src, src, 0, 0, MAGNIFIER_SIZE, MAGNIFIER_SIZE);
+            magnifier.drawImage(canvas, p.x - src / 2, p.y - src / 2, src, src, 0, 0, MAGNIFIER_SIZE, MAGNIFIER_SIZE);
+            // Crosshair on the exact point
+            magnifier.strokeStyle = '#fff';
+            magnifier.lineWidth = 1;
+            magnifier.beginPath();
+            magnifier.moveTo(MAGNIFIER_SIZE / 2, 0);
+            magnifier.lineTo(MAGNIFIER_SIZE / 2, MAGNIFIER_SIZE);
+            magnifier.moveTo(0, MAGNIFIER_SIZE / 2);
+            magnifier.lineTo(MAGNIFIER_SIZE, MAGNIFIER_SIZE / 2);
+            magnifier.stroke();
+        }
+    }, [landmarks, active, hover, editable, base, history.present, imageVersion]);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const index = nearest(toImagePoint(e));
+        if (index === null) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragStart.current = history.present;
+        setActive(index);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const p = toImagePoint(e);
+        if (active === null) {
+            setHover(nearest(p));
+            return;
+        }
+        // Intermediate positions don't go on the undo stack
+        setHistory(h => ({ ...h, present: { ...h.present, [active]: p } }));
+    };
+
+    const handlePointerUp = () => {
+        if (active === null) return;
+        const before = dragStart.current;
+        if (before && before !== history.present) {
+            setHistory(h => ({ past: [...h.past, before], present: h.present, future: [] }));
+        }
+        dragStart.current = null;
+        setActive(null);
+    };
+
+    const undo = () => setHistory(h => (h.past.length === 0 ? h : {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+    }));
+
+    const redo = () => setHistory(h => (h.future.length === 0 ? h : {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+    }));
+
+    const reset = () => setHistory(h => (Object.keys(h.present).length === 0 ? h : { past: [...h.past, h.present], present: {}, future: [] }));
+
+    useEffect(() => {
+        const handleKey = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+            e.preventDefault();
+            if (e.shiftKey) redo();
+            else undo();
+        };
+        window.addEventListener('keydown', handleKey);
+        return () => window.removeEventListener('keydown', handleKey);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const labels: Record<number, string> = t.editor.landmarks[base.view];
+    const point = active ?? hover;
+    const label = point !== null && editable.includes(point) ? labels[point] : undefined;
+    const error = rescored instanceof AnalysisError ? rescored : null;
+    const buttonClass = "flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-black/70 hover:bg-black/90 border border-white/10 text-[10px] font-bold uppercase tracking-widest text-gray-400 hover:text-white transition-all disabled:opacity-20 disabled:cursor-not-allowed";
+
+    return (
+        // Fills the preview box; the photo keeps its aspect ratio inside it
+        <div className="relative w-full h-full flex items-center justify-center bg-black/20">
+            <div className="relative inline-block max-w-full max-h-full">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                    ref={imageRef}
+                    src={imageSrc}
+                    alt={t.editor.image}
+                    className="max-w-full max-h-full block object-contain"
+                    onLoad={() => setImageVersion(v => v + 1)}
+                />
+                <canvas
+                    ref={canvasRef}
+                    className={`absolute inset-0 w-full h-full touch-none ${active !== null ? 'cursor-grabbing' : hover !== null ? 'cursor-grab' : 'cursor-default'}`}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    onPointerLeave={() => setHover(null)}
+                />
+            </div>
+
+            <canvas
+                ref={magnifierRef}
+                width={MAGNIFIER_SIZE}
+                height={MAGNIFIER_SIZE}
+                className={`absolute top-3 left-3 w-24 h-24 rounded-full border border-white/30 pointer-events-none ${active !== null ? '' : 'hidden'}`}
+            />
+            {label && (
+                <span className="absolute top-3 right-3 px-3 py-1 rounded-full bg-black/70 text-[9px] uppercase tracking-widest text-cyan-400 pointer-events-none">
+                    {label}
+                </span>
+            )}
+
+            <div className="absolute bottom-3 inset-x-3 flex flex-col gap-2">
+                {error && (
+                    <p className="px-3 py-2 rounded-lg bg-black/70 text-[10px] text-red-400 text-center">{describeError(t, error).message}</p>
+                )}
+                <div className="flex gap-2">
+                    <button onClick={undo} disabled={history.past.length === 0} className={buttonClass} title={t.editor.undo}>
+                        <Undo2 className="w-3 h-3" />
+                    </button>
+                    <button onClick={redo} disabled={history.future.length === 0} className={buttonClass} title={t.editor.redo}>
+                        <Redo2 className="w-3 h-3" />
+                    </button>
+                    <button onClick={reset} disabled={Object.keys(history.present).length === 0} className={buttonClass} title={t.editor.reset}>
+                        <RotateCcw className="w-3 h-3" />
+                    </button>
+                    <button onClick={onCancel} className={`${buttonClass} flex-1`}>
+                        <X className="w-3 h-3" />
+                        {t.editor.cancel}
+                    </button>
+                    <button onClick={onDone} disabled={error !== null} className={`${buttonClass} flex-1 !bg-cyan-400 !text-black border-cyan-400`}>
+                        <Check className="w-3 h-3" />
+                        {t.editor.done}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { LOCALES, MESSAGES } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+export const LanguageSwitcher = () => {
+    const { locale, setLocale, t } = useI18n();
+
+    return (
+        <div className="flex p-1 bg-white/5 rounded-full border border-white/10" role="group" aria-label={t.language.label}>
+            {LOCALES.map(l => (
+                <button
+                    key={l}
+                    onClick={() => setLocale(l)}
+                    title={MESSAGES[l].language.name}
+                    className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest transition-colors ${l === locale ? 'bg-cyan-400 text-black' : 'text-gray-500 hover:text-white'}`}
+                >
+                    {l}
+                </button>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { FaceMeasurements } from '@/lib/measurements';
+import { OVERLAY_LAYERS, OverlayLayers, OverlayTheme, OVERLAY_THEMES, layerColor } from '@/lib/visualize';
+import { useI18n } from '@/components/I18nProvider';
+
+// Layer toggles and theme picker; the legend shows which metric each layer draws
+export const OverlayControls = ({
+    layers,
+    theme,
+    measurements,
+    onLayersChange,
+    onThemeChange,
+}: {
+    layers: OverlayLayers;
+    theme: OverlayTheme;
+    measurements?: FaceMeasurements;
+    onLayersChange: (layers: OverlayLayers) => void;
+    onThemeChange: (theme: OverlayTheme) => void;
+}) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+
+    return (
+        <div className="w-full max-w-sm space-y-3">
+            <div className="flex items-center justify-between">
+                <span className="text-[10px] uppercase tracking-[0.2em] text-gray-500">{t.overlay.title}</span>
+                <select
+                    value={theme}
+                    onChange={(e) => onThemeChange(e.target.value as OverlayTheme)}
+                    className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-[10px] tracking-widest uppercase text-gray-300 focus:outline-none focus:border-cyan-400/50"
+                >
+                    {(Object.keys(OVERLAY_THEMES) as OverlayTheme[]).map(id => (
+                        <option key={id} value={id} className="bg-gray-900">{t.overlay.themes[id]}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="space-y-1">
+                {OVERLAY_LAYERS.map(layer => (
+                    <label key={layer.id} className="flex items-start gap-2 cursor-pointer" title={layer.metric}>
+                        <input
+                            type="checkbox"
+                            checked={!!layers[layer.id]}
+                            onChange={(e) => onLayersChange({ ...layers, [layer.id]: e.target.checked })}
+                            className="mt-0.5 accent-cyan-400"
+                        />
+                        <span className="w-2 h-2 mt-1 rounded-full shrink-0" style={{ backgroundColor: layerColor(theme, layer.id) }} />
+                        <span className="flex flex-col">
+                            <span className="text-[10px] font-bold uppercase tracking-widest text-gray-400">{t.overlay.layers[layer.id]}</span>
+                            {layers[layer.id] && (
+                                <span className="text-[9px] text-gray-500">
+                                    {layer.metric}
+                                    {measurements && <span className="text-gray-300"> = {layer.value(measurements, i18n)}</span>}
+                                </span>
+                            )}
+                        </span>
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -1,11 +1,22 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
 import { AnalysisResult } from '@/lib/analyzeFace';
+import { ScoreExplanation, ScoreTerm } from '@/lib/scoring';
+import { ScoreWaterfall } from '@/components/ScoreWaterfall';
+import { ProfileAnalysisResult, PROFILE_SCORE_KEYS } from '@/lib/analyzeProfile';
+import { SeriesAnalysisResult } from '@/lib/series';
+import { SkinMetrics, SkinRegion, SkinRegionMetrics } from '@/lib/skin';
+import { QualityCheck } from '@/lib/qualityGate';
+import { WarningCode } from '@/lib/quality';
+import { normSetLabel, Translator } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
 
 interface MetricRowProps {
     label: string;
     value: string | number;
     subtext?: string;
     highlight?: boolean;
+    explanation?: ScoreExplanation; // Makes the row expandable
 }
 
 const ProgressBar = ({ value, color = "bg-white" }: { value: number; color?: string }) => (
@@ -17,36 +28,287 @@ const ProgressBar = ({ value, color = "bg-white" }: { value: number; color?: str
     </div>
 );
 
-const MetricRow = ({ label, value, subtext, highlight = false, score }: MetricRowProps & { score?: number }) => (
-    <div className="flex flex-col mb-4 last:mb-0">
-        <div className="flex justify-between items-end pb-1">
-            <div className="flex flex-col">
-                <span className="text-[10px] uppercase tracking-[0.2em] text-gray-400 font-medium">{label}</span>
-                {subtext && <span className="text-[9px] text-gray-600 mt-0.5">{subtext}</span>}
+// Compact number formatting for raw measurements (ratios need more precision)
+const formatValue = (i18n: Translator, x: number) => i18n.number(x, Math.abs(x) < 10 ? 2 : 1);
+
+const formatIdeal = (i18n: Translator, [min, max]: ScoreTerm['ideal']) => {
+    const f = (x: number) => formatValue(i18n, x);
+    if (min !== null && max !== null) return min === max ? f(min) : `${f(min)} – ${f(max)}`;
+    if (min !== null) return `≥ ${f(min)}`;
+    if (max !== null) return `≤ ${f(max)}`;
+    return '—';
+};
+
+// Expanded view of how a single score was computed
+const ScoreDetails = ({ explanation }: { explanation: ScoreExplanation }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+
+    return (
+        <div className="mt-3 mb-1 p-3 rounded-lg bg-white/5 border border-white/5 text-[10px] text-gray-400">
+            <div className="grid grid-cols-[1fr_auto_auto_auto_auto] gap-x-3 gap-y-1 items-baseline">
+                <span className="uppercase tracking-widest text-gray-600">{t.result.metric}</span>
+                <span className="uppercase tracking-widest text-gray-600 text-right">{t.result.value}</span>
+                <span className="uppercase tracking-widest text-gray-600 text-right">{t.result.ideal}</span>
+                <span className="uppercase tracking-widest text-gray-600 text-right">Δ</span>
+                <span className="uppercase tracking-widest text-gray-600 text-right">{t.result.score}</span>
+                {explanation.terms.map(term => (
+                    <React.Fragment key={term.key}>
+                        <span className="truncate">
+                            {t.terms[term.key] ?? term.key.replace(/_/g, ' ')}
+                            <span className="text-gray-600"> ×{Math.round(term.weight * 100)}%</span>
+                        </span>
+                        <span className="text-right text-white">{formatValue(i18n, term.value)}</span>
+                        <span className="text-right">{formatIdeal(i18n, term.ideal)}</span>
+                        <span className="text-right">{formatValue(i18n, term.deviation)}</span>
+                        <span className="text-right text-white">{Math.round(term.score)}</span>
+                    </React.Fragment>
+                ))}
             </div>
-            <div className={`text-lg font-light tracking-wide ${highlight ? 'text-cyan-400' : 'text-white'}`}>
-                {value}
+            {explanation.weight > 0 && (
+                <div className="mt-3 pt-2 border-t border-white/5 flex justify-between">
+                    <span>{t.result.contribution(Math.round(explanation.weight * 100))}</span>
+                    <span className="text-cyan-400">{i18n.signed(explanation.contribution, 2)}</span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const MetricRow = ({ label, value, subtext, highlight = false, score, explanation }: MetricRowProps & { score?: number }) => {
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+        <div className="flex flex-col mb-4 last:mb-0">
+            <div
+                className={`flex justify-between items-end pb-1 ${explanation ? 'cursor-pointer group' : ''}`}
+                onClick={explanation ? () => setExpanded(!expanded) : undefined}
+            >
+                <div className="flex flex-col">
+                    <span className="flex items-center gap-1 text-[10px] uppercase tracking-[0.2em] text-gray-400 font-medium group-hover:text-white transition-colors">
+                        {label}
+                        {explanation && <ChevronDown className={`w-3 h-3 transition-transform ${expanded ? 'rotate-180' : ''}`} />}
+                    </span>
+                    {subtext && <span className="text-[9px] text-gray-600 mt-0.5">{subtext}</span>}
+                </div>
+                <div className={`text-lg font-light tracking-wide ${highlight ? 'text-cyan-400' : 'text-white'}`}>
+                    {value}
+                </div>
             </div>
+            {/* If score is provided, show progress bar. If value is percentage string, parse it. */}
+            {score !== undefined ? (
+                <ProgressBar value={score} color={highlight ? "bg-cyan-400" : "bg-white/80"} />
+            ) : (
+                 typeof value === 'string' && value.includes('%') ? (
+                    <ProgressBar value={parseInt(value)} color={highlight ? "bg-cyan-400" : "bg-white/80"} />
+                 ) : null
+            )}
+            {expanded && explanation && <ScoreDetails explanation={explanation} />}
         </div>
-        {/* If score is provided, show progress bar. If value is percentage string, parse it. */}
-        {score !== undefined ? (
-            <ProgressBar value={score} color={highlight ? "bg-cyan-400" : "bg-white/80"} />
-        ) : (
-             typeof value === 'string' && value.includes('%') ? (
-                <ProgressBar value={parseInt(value)} color={highlight ? "bg-cyan-400" : "bg-white/80"} />
-             ) : null
-        )}
-    </div>
-);
+    );
+};
 
-const DeepStat = ({ label, value, unit }: { label: string; value: string | number; unit?: string }) => (
+export const DeepStat = ({ label, value, unit }: { label: string; value: string | number; unit?: string }) => (
     <div className="bg-white/5 p-3 rounded-lg border border-white/5 flex flex-col items-center justify-center text-center hover:border-white/10 transition-colors">
         <span className="text-xl font-light text-white mb-1">{value}<span className="text-xs text-gray-500 ml-0.5">{unit}</span></span>
         <span className="text-[8px] uppercase tracking-widest text-gray-500">{label}</span>
     </div>
 );
 
-export const ResultCard = ({ result }: { result: AnalysisResult }) => {
+// Older results may carry English text instead of a code: shown as is
+const Warnings = ({ warnings }: { warnings: WarningCode[] }) => {
+    const { t } = useI18n();
+
+    return warnings.length > 0 ? (
+        <div className="mt-8 flex flex-wrap justify-center gap-2">
+            {warnings.map(w => (
+                <span key={w} className="flex items-center gap-1.5 text-[9px] uppercase tracking-widest text-red-400/70">
+                    <span className="w-1.5 h-1.5 rounded-full bg-red-500/50" />
+                    {t.warnings[w] ?? w}
+                </span>
+            ))}
+        </div>
+    ) : null;
+};
+
+// Quality gate findings: what is off with the photo and how to retake it
+export const QualityChecks = ({ checks }: { checks: QualityCheck[] }) => {
+    const { t } = useI18n();
+    const failed = checks.filter(c => c.status !== 'pass');
+    if (failed.length === 0) return null;
+
+    return (
+        <div className="mt-8">
+            <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-4 text-center">{t.quality.title}</h3>
+            <div className="space-y-2">
+                {failed.map(c => (
+                    <div key={c.id} className="flex items-start gap-2 text-[10px]">
+                        <span className={`w-1.5 h-1.5 mt-1 rounded-full shrink-0 ${c.status === 'block' ? 'bg-red-500' : 'bg-amber-400'}`} />
+                        <div>
+                            <p className="text-gray-300">{t.quality.checks[c.id].message}</p>
+                            <p className="text-gray-500">{t.quality.checks[c.id].remediation}</p>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// What regularization changed in the detected landmarks (shift in % of IPD)
+const Corrections = ({ result }: { result: AnalysisResult }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const report = result.regularization;
+    if (!report) return null;
+    if (!report.applied) {
+        return <p className="mt-8 text-[9px] text-gray-500 uppercase tracking-widest text-center">{t.result.strictNoCorrections}</p>;
+    }
+    if (report.corrections.length === 0) return null;
+
+    return (
+        <div className="mt-8">
+            <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-4 text-center">{t.result.correctionsTitle}</h3>
+            <div className="space-y-1 text-[10px]">
+                {report.corrections.map(c => {
+                    const shift = Math.max(...c.moves.map(m => Math.hypot(m.dx, m.dy))) / result.measurements.ipd_px * 100;
+                    return (
+                        <div key={c.rule} className="flex justify-between text-gray-400" title={c.moves.map(m => m.index).join(', ')}>
+                            <span>{t.corrections[c.rule]}</span>
+                            <span className="text-amber-400/80">{t.result.correctionShift(c.moves.length, i18n.number(shift, 1))}</span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+// Skin measured inside the face mask, per region (lower is better everywhere)
+const SkinRegions = ({ skin }: { skin?: SkinMetrics }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    if (!skin) return null;
+    const rows: [SkinRegion | 'overall', SkinRegionMetrics][] = [
+        ['overall', skin.overall],
+        ...(Object.keys(skin.regions) as SkinRegion[]).map(r => [r, skin.regions[r]] as [SkinRegion, SkinRegionMetrics]),
+    ];
+
+    return (
+        <div className="mt-8">
+            <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-4 text-center">{t.result.skinTitle}</h3>
+            <div className="grid grid-cols-[1fr_repeat(4,auto)] gap-x-4 gap-y-1 text-[10px] text-gray-400">
+                <span />
+                <span className="text-right text-gray-600">{t.skin.texture}</span>
+                <span className="text-right text-gray-600">{t.skin.tone}</span>
+                <span className="text-right text-gray-600">{t.skin.redness}</span>
+                <span className="text-right text-gray-600">{t.skin.shine}</span>
+                {rows.map(([region, m]) => (
+                    <React.Fragment key={region}>
+                        <span className={region === 'overall' ? 'text-white' : ''}>{t.skin[region]}</span>
+                        <span className="text-right">{i18n.number(m.texture, 1)}</span>
+                        <span className="text-right">{i18n.number(m.tone, 1)}</span>
+                        <span className="text-right">{i18n.number(m.redness, 1)}%</span>
+                        <span className="text-right">{i18n.number(m.shine, 1)}%</span>
+                    </React.Fragment>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Flags results whose landmarks were corrected by hand
+const ManualPoints = ({ result }: { result: AnalysisResult | ProfileAnalysisResult }) => {
+    const { t } = useI18n();
+
+    return result.manual_landmarks && result.manual_landmarks.length > 0 ? (
+        <p className="text-[9px] text-red-400/70 uppercase tracking-widest mt-1" title={result.manual_landmarks.join(', ')}>
+            {t.result.manualPoints(result.manual_landmarks.length)}
+        </p>
+    ) : null;
+};
+
+const ProfileResult = ({ result }: { result: ProfileAnalysisResult }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+
+    return (
+            <div className="w-full max-w-md relative overflow-hidden backdrop-blur-2xl bg-black/40 border border-white/10 rounded-[2rem] p-8 shadow-2xl">
+                {/* Header / Score */}
+                <div className="text-center mb-10 relative">
+                    <div className="absolute top-0 left-1/2 -translate-x-1/2 -translate-y-1/2 w-32 h-32 bg-cyan-500/20 blur-[60px] rounded-full pointer-events-none" />
+
+                    <h2 className="text-8xl font-thin text-white tracking-tighter mb-2 relative z-10">
+                        {result.overall}
+                    </h2>
+                    <div className="flex items-center justify-center gap-2 mb-6">
+                        <span className="px-3 py-1 rounded-full bg-white/5 border border-white/10 text-[10px] font-medium text-cyan-400 uppercase tracking-widest">
+                            {t.result.profile}
+                        </span>
+                        <span className="px-3 py-1 rounded-full bg-white/5 border border-white/10 text-[10px] font-medium text-gray-400 uppercase tracking-widest">
+                            {normSetLabel(t, result.norm_set)}
+                        </span>
+                    </div>
+                </div>
+
+                {/* Profile Angles */}
+                <div className="mb-8">
+                    <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-4 text-center">{t.result.profileAnalysis}</h3>
+                    <div className="grid grid-cols-2 gap-3">
+                        <DeepStat label={t.measurements.gonial_angle} value={i18n.number(result.gonial_angle, 1)} unit="°" />
+                        <DeepStat label={t.measurements.nasofrontal_angle} value={i18n.number(result.nasofrontal_angle, 1)} unit="°" />
+                        <DeepStat label={t.measurements.nasolabial_angle} value={i18n.number(result.nasolabial_angle, 1)} unit="°" />
+                        <DeepStat label={t.measurements.forehead_slope} value={i18n.number(result.forehead_slope, 1)} unit="°" />
+                        <DeepStat label={t.measurements.e_line_upper_lip} value={i18n.number(result.e_line_upper_lip, 1)} unit="%" />
+                        <DeepStat label={t.measurements.e_line_lower_lip} value={i18n.number(result.e_line_lower_lip, 1)} unit="%" />
+                        <DeepStat label={t.measurements.chin_projection} value={i18n.number(result.chin_projection, 1)} unit="%" />
+                        <DeepStat label={t.measurements.profile_thirds} value={result.profile_thirds.map(x => Math.round(x)).join(' / ')} unit="%" />
+                    </div>
+                </div>
+
+                {/* Profile Scores */}
+                <div className="space-y-2">
+                    {PROFILE_SCORE_KEYS.map((key, i) => (
+                        <MetricRow key={key} label={t.profileScores[key]} value={`${result[key]}%`} highlight={i === 0} score={result[key]} />
+                    ))}
+                </div>
+
+                <Warnings warnings={result.warnings} />
+
+                <div className="mt-8 text-center">
+                    <p className="text-[9px] text-gray-700 uppercase tracking-widest">
+                        {t.result.profileFooter}
+                    </p>
+                    <ManualPoints result={result} />
+                </div>
+            </div>
+    );
+};
+
+// Photos used / dropped when the result comes from a multi-photo series
+const SeriesSummary = ({ series }: { series: SeriesAnalysisResult }) => {
+    const { t } = useI18n();
+    const count = (status: string) => series.photos.filter(p => p.status === status).length;
+    return (
+        <div className="flex justify-center gap-4 mb-8 text-[9px] uppercase tracking-widest text-gray-500">
+            <span>{t.result.seriesPhotos}: <span className="text-white">{count('used')}</span></span>
+            <span>{t.result.seriesOutliers}: <span className="text-yellow-500/80">{count('outlier')}</span></span>
+            <span>{t.result.seriesFailed}: <span className="text-red-400/80">{count('failed')}</span></span>
+        </div>
+    );
+};
+
+const FaceResult = ({ result, series }: { result: AnalysisResult; series?: SeriesAnalysisResult | null }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const { scores, breakdown } = result;
+    const { angles, ratios } = result.measurements;
+
+    const ci = (key: keyof SeriesAnalysisResult['intervals']) => {
+        const interval = series?.intervals[key];
+        return interval ? t.result.interval(Math.round(series!.confidence * 100), interval[0], interval[1]) : undefined;
+    };
+
     return (
         <div className="w-full max-w-md relative overflow-hidden backdrop-blur-2xl bg-black/40 border border-white/10 rounded-[2rem] p-8 shadow-2xl">
             {/* Header / Score */}
@@ -58,49 +320,90 @@ export const ResultCard = ({ result }: { result: AnalysisResult }) => {
                 </h2>
                 <div className="flex items-center justify-center gap-2 mb-6">
                      <span className="px-3 py-1 rounded-full bg-white/5 border border-white/10 text-[10px] font-medium text-cyan-400 uppercase tracking-widest">
-                        {result.face_shape}
+                        {t.faceShapes[result.face_shape] ?? result.face_shape}
                     </span>
                     <span className="px-3 py-1 rounded-full bg-white/5 border border-white/10 text-[10px] font-medium text-gray-400 uppercase tracking-widest">
-                        Potential: {result.potential}
+                        {t.result.potential}: {result.potential}
                     </span>
                 </div>
+                {ci('overall') && (
+                    <p className="text-[9px] text-gray-500 uppercase tracking-widest">{ci('overall')}</p>
+                )}
             </div>
 
+            {series && <SeriesSummary series={series} />}
+
             {/* Deep Analysis Grid */}
             <div className="mb-8">
-                <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-4 text-center">Глубокий Анализ</h3>
+                <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-4 text-center">{t.result.deepAnalysis}</h3>
                 <div className="grid grid-cols-2 gap-3">
-                    <DeepStat label="Canthal Tilt" value={result.canthal_tilt} unit="°" />
-                    <DeepStat label="Midface Ratio" value={result.midface_ratio} />
-                    <DeepStat label="Jaw Angle" value={result.jaw_angle} unit="°" />
-                    <DeepStat label="Eye Openness" value={result.eye_aspect_ratio} />
+                    <DeepStat label={t.measurements.canthal_tilt} value={i18n.number(angles.canthal_tilt, 1)} unit="°" />
+                    <DeepStat label={t.measurements.midface_ratio} value={i18n.number(ratios.midface_ratio, 2)} />
+                    <DeepStat label={t.measurements.jaw_angle} value={i18n.number(angles.jaw_angle, 1)} unit="°" />
+                    <DeepStat label={t.measurements.eye_aspect_ratio} value={i18n.number(ratios.eye_aspect_ratio, 2)} />
                 </div>
             </div>
 
             {/* Standard Metrics */}
             <div className="space-y-2">
-                <MetricRow label="Маскулинность" value={`${result.masculinity}%`} highlight score={result.masculinity} />
-                <MetricRow label="Симметрия" value={`${result.symmetry}%`} score={result.symmetry} />
-                <MetricRow label="Золотое сечение" value={`${result.golden_ratio}%`} score={result.golden_ratio} />
-                <MetricRow label="Гармония" value={`${result.harmony}%`} score={result.harmony} />
-                <MetricRow label="Качество кожи" value={`${result.skin_quality}%`} score={result.skin_quality} />
-                <MetricRow label="Линия челюсти" value={`${result.jawline}%`} score={result.jawline} />
+                {scores.dimorphism !== null && (
+                    <MetricRow
+                        label={t.scores.dimorphism}
+                        subtext={[normSetLabel(t, result.norm_set), ci('dimorphism')].filter(Boolean).join(' • ')}
+                        value={`${scores.dimorphism}%`}
+                        highlight
+                        score={scores.dimorphism}
+                        explanation={breakdown.scores.dimorphism}
+                    />
+                )}
+                {(['symmetry', 'golden_ratio', 'harmony', 'skin_quality', 'jawline'] as const).map(key => (
+                    <MetricRow key={key} label={t.scores[key]} value={`${scores[key]}%`} subtext={ci(key)} score={scores[key]} explanation={breakdown.scores[key]} />
+                ))}
             </div>
 
+            {/* How Overall Was Built */}
+            <div className="mt-8">
+                <h3 className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mb-4 text-center">{t.result.breakdown}</h3>
+                <ScoreWaterfall breakdown={breakdown} overall={result.overall} />
+            </div>
+
+            <SkinRegions skin={result.measurements.skin} />
+
+            {result.quality_gate && <QualityChecks checks={result.quality_gate.checks} />}
+
+            <Corrections result={result} />
+
             {/* Warnings (Minimalist) */}
-            {result.warnings.length > 0 && (
-                <div className="mt-8 flex flex-wrap justify-center gap-2">
-                    {result.warnings.map(w => (
-                        <span key={w} className="w-1.5 h-1.5 rounded-full bg-red-500/50" title={w.replace('_', ' ')} />
-                    ))}
-                </div>
-            )}
+            <Warnings warnings={result.warnings} />
             
             <div className="mt-8 text-center">
                 <p className="text-[9px] text-gray-700 uppercase tracking-widest">
-                    AI Analysis v2.0 • Precision Engine
+                    {t.result.scoringFooter(result.scoring_profile)}
+                </p>
+                {result.pose && (
+                    <p className="text-[9px] text-gray-700 uppercase tracking-widest mt-1">
+                        {t.result.pose(i18n.number(result.pose.yaw, 1), i18n.number(result.pose.pitch, 1), i18n.number(result.pose.roll, 1))}
+                    </p>
+                )}
+                {result.expression && (
+                    <p className={`text-[9px] uppercase tracking-widest mt-1 ${result.expression.verdict === 'pass' ? 'text-gray-700' : 'text-amber-400/70'}`}>
+                        {t.result.expression}: {result.expression.detected.length > 0 ? result.expression.detected.map(l => t.expressions[l]).join(', ') : t.expressions.neutral}
+                    </p>
+                )}
+                <p className="text-[9px] text-gray-700 uppercase tracking-widest mt-1">
+                    {t.result.photoStats(
+                        i18n.number(result.measurements.quality.brightness),
+                        i18n.number(result.measurements.quality.contrast),
+                        i18n.number(result.measurements.quality.sharpness),
+                    )}
                 </p>
+                <ManualPoints result={result} />
             </div>
         </div>
     );
 };
+
+// Hooks run inside each view, so the early return for profiles stays legal
+export const ResultCard = ({ result, series }: { result: AnalysisResult | ProfileAnalysisResult; series?: SeriesAnalysisResult | null }) => (
+    result.view === 'profile' ? <ProfileResult result={result} /> : <FaceResult result={result} series={series} />
+);
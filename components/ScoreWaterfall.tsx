@@ -0,0 +1,47 @@
+import React from 'react';
+import { ScoreBreakdown } from '@/lib/scoring';
+import { useI18n } from '@/components/I18nProvider';
+
+const Bar = ({ label, start, amount, total = false }: { label: string; start: number; amount: number; total?: boolean }) => {
+    const i18n = useI18n();
+
+    return (
+        <div className="grid grid-cols-[7rem_1fr_3rem] items-center gap-3">
+            <span className="text-[9px] uppercase tracking-widest text-gray-500 truncate">{label}</span>
+            <div className="relative h-2 bg-white/5 rounded-full">
+                <div
+                    className={`absolute h-full rounded-full ${total ? 'bg-cyan-400' : amount < 0 ? 'bg-red-500/60' : 'bg-white/70'}`}
+                    style={{
+                        left: `${(Math.min(start, start + amount) / 10) * 100}%`,
+                        width: `${(Math.abs(amount) / 10) * 100}%`,
+                    }}
+                />
+            </div>
+            <span className={`text-[10px] text-right ${total ? 'text-cyan-400' : 'text-gray-400'}`}>
+                {total ? amount : i18n.signed(amount, 2)}
+            </span>
+        </div>
+    );
+};
+
+// Each category's weighted contribution stacked from 0 up to `overall` (0-10)
+export const ScoreWaterfall = ({ breakdown, overall }: { breakdown: ScoreBreakdown; overall: number }) => {
+    const { t } = useI18n();
+    let running = 0;
+
+    return (
+        <div className="space-y-2">
+            {breakdown.overall.map(step => {
+                const start = running;
+                running += step.contribution;
+                return (
+                    <Bar key={step.key} label={`${t.scores[step.key]} ×${Math.round(step.weight * 100)}%`} start={start} amount={step.contribution} />
+                );
+            })}
+            {Math.abs(breakdown.rounding) >= 0.005 && (
+                <Bar label={t.result.rounding} start={running} amount={breakdown.rounding} />
+            )}
+            <Bar label={t.result.total} start={0} amount={overall} total />
+        </div>
+    );
+};
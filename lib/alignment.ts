@@ -0,0 +1,85 @@
+import { Point } from './geometry';
+import { AnyContext2D } from './canvas';
+
+/**
+ * Similarity transform that levels the eye line and centers/scales the face in
+ * a square target. Used for the refinement pass and to overlay two photos.
+ */
+
+export interface FaceAlignment {
+    angle: number; // Radians, eye-line tilt removed by the transform
+    scale: number; // Source px -> target px
+    centerX: number; // Face bbox center in source px
+    centerY: number;
+    targetSize: number;
+}
+
+// Face bbox fills this share of the target, leaving padding for the refinement pass
+const FACE_FILL = 0.7;
+
+export function computeAlignment(landmarks: Point[], targetSize = 512): FaceAlignment {
+    // 1. Calculate Center and Angle
+    const leftEye = landmarks[33];  // Right Eye (Visual Left)
+    const rightEye = landmarks[263]; // Left Eye (Visual Right)
+    const angle = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x);
+
+    // 2. Determine Bounding Box of Face
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    landmarks.forEach(p => {
+        if (p.x < minX) minX = p.x;
+        if (p.x > maxX) maxX = p.x;
+        if (p.y < minY) minY = p.y;
+        if (p.y > maxY) maxY = p.y;
+    });
+
+    // 3. Scale to fit with padding
+    const maxDim = Math.max(maxX - minX, maxY - minY);
+    // Ensure we don't divide by zero if detection is weird
+    const safeDim = maxDim > 0 ? maxDim : 100;
+
+    return {
+        angle,
+        scale: (targetSize * FACE_FILL) / safeDim,
+        centerX: (minX + maxX) / 2,
+        centerY: (minY + maxY) / 2,
+        targetSize,
+    };
+}
+
+// Sets the context transform so drawing the source image at (0, 0) lands aligned
+export function applyAlignment(ctx: AnyContext2D, a: FaceAlignment) {
+    // Order: Translate Center to Origin -> Rotate -> Scale -> Translate to Canvas Center
+    ctx.translate(a.targetSize / 2, a.targetSize / 2);
+    ctx.scale(a.scale, a.scale);
+    ctx.rotate(-a.angle); // Rotate to straighten
+    ctx.translate(-a.centerX, -a.centerY);
+}
+
+// Source -> target
+export function mapToAligned<T extends Point & { z?: number }>(p: T, a: FaceAlignment): T {
+    const dx = p.x - a.centerX;
+    const dy = p.y - a.centerY;
+    const cos = Math.cos(a.angle);
+    const sin = Math.sin(a.angle);
+    return {
+        ...p,
+        x: (dx * cos + dy * sin) * a.scale + a.targetSize / 2,
+        y: (-dx * sin + dy * cos) * a.scale + a.targetSize / 2,
+        z: p.z !== undefined ? p.z * a.scale : undefined,
+    };
+}
+
+// Target -> source
+export function mapFromAligned<T extends Point & { z?: number }>(p: T, a: FaceAlignment): T {
+    // Inverse: (P - CenterCanvas) / Scale -> Rotate(+angle) -> + CenterSource
+    const x = (p.x - a.targetSize / 2) / a.scale;
+    const y = (p.y - a.targetSize / 2) / a.scale;
+    const cos = Math.cos(a.angle);
+    const sin = Math.sin(a.angle);
+    return {
+        ...p,
+        x: x * cos - y * sin + a.centerX,
+        y: x * sin + y * cos + a.centerY,
+        z: p.z ? p.z / a.scale : undefined, // Handle Z if present
+    };
+}
@@ -0,0 +1,80 @@
+import { analyzeFace, AnalysisResult } from './analyzeFace';
+import { analyzeProfile, ProfileAnalysisResult } from './analyzeProfile';
+import { analyzeFaceSeries, SeriesAnalysisResult } from './series';
+import { getScoringProfile } from './scoring';
+import { getNormSet } from './norms';
+import { serializeAnalysisError, toAnalysisError, SerializedAnalysisError } from './errors';
+import { AnalysisStage } from './pipeline';
+import { FaceBox } from './geometry';
+
+/**
+ * Analysis worker: runs the full pipeline off the main thread on transferred
+ * ImageBitmaps (OffscreenCanvas for all intermediate canvases).
+ */
+
+export type AnalysisJob =
+    | { kind: 'front'; image: ImageBitmap; scoringProfileId?: string | null; normSetId?: string | null; strict?: boolean; face?: FaceBox; allowLowQuality?: boolean; allowNonNeutral?: boolean }
+    | { kind: 'profile'; image: ImageBitmap; normSetId?: string | null; face?: FaceBox }
+    | { kind: 'series'; images: ImageBitmap[]; scoringProfileId?: string | null; normSetId?: string | null; strict?: boolean };
+
+export interface AnalysisProgress {
+    stage: AnalysisStage;
+    photo?: { index: number; total: number }; // Series only, 1-based
+}
+
+export type WorkerRequest =
+    | { id: number; type: 'run'; job: AnalysisJob }
+    | { id: number; type: 'cancel' };
+
+export type WorkerResponse =
+    | { id: number; type: 'progress'; progress: AnalysisProgress }
+    | { id: number; type: 'done'; result: AnalysisResult | ProfileAnalysisResult | SeriesAnalysisResult }
+    | { id: number; type: 'error'; error: SerializedAnalysisError };
+
+const running = new Map<number, AbortController>();
+const post = (message: WorkerResponse) => (self as unknown as Worker).postMessage(message);
+
+async function run(id: number, job: AnalysisJob, signal: AbortSignal) {
+    const norms = getNormSet(job.normSetId);
+    const onStage = (stage: AnalysisStage) => post({ id, type: 'progress', progress: { stage } });
+
+    switch (job.kind) {
+        case 'front':
+            return analyzeFace(job.image, { scoringProfile: getScoringProfile(job.scoringProfileId), norms, strict: job.strict, face: job.face, allowLowQuality: job.allowLowQuality, allowNonNeutral: job.allowNonNeutral, onStage, signal });
+        case 'profile':
+            return analyzeProfile(job.image, { norms, face: job.face, onStage, signal });
+        case 'series': {
+            let index = 1;
+            return analyzeFaceSeries(job.images, {
+                scoringProfile: getScoringProfile(job.scoringProfileId),
+                norms,
+                strict: job.strict,
+                signal,
+                onStage: stage => post({ id, type: 'progress', progress: { stage, photo: { index, total: job.images.length } } }),
+                onProgress: done => { index = done + 1; },
+            });
+        }
+    }
+}
+
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+    if (request.type === 'cancel') {
+        running.get(request.id)?.abort();
+        return;
+    }
+
+    const controller = new AbortController();
+    running.set(request.id, controller);
+    try {
+        const result = await run(request.id, request.job, controller.signal);
+        post({ id: request.id, type: 'done', result });
+    } catch (e) {
+        console.error(e);
+        post({ id: request.id, type: 'error', error: serializeAnalysisError(toAnalysisError(e)) });
+    } finally {
+        running.delete(request.id);
+        const { job } = request;
+        (job.kind === 'series' ? job.images : [job.image]).forEach(bitmap => bitmap.close());
+    }
+});
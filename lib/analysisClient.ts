@@ -0,0 +1,165 @@
+import { analyzeFace, AnalysisResult } from './analyzeFace';
+import { analyzeProfile, ProfileAnalysisResult } from './analyzeProfile';
+import { analyzeFaceSeries, SeriesAnalysisResult } from './series';
+import { getScoringProfile } from './scoring';
+import { getNormSet } from './norms';
+import { loadImage } from './detector';
+import { FaceBox } from './geometry';
+import { AnalysisCancelledError, WorkerError, deserializeAnalysisError, isAnalysisError } from './errors';
+import type { AnalysisJob, AnalysisProgress, WorkerRequest, WorkerResponse } from './analysis.worker';
+
+/**
+ * Main-thread entry point for analysis. Jobs run in the analysis worker when the
+ * browser supports it, otherwise (or if the worker can't load the model) on the
+ * main thread with the same progress events and cancellation.
+ */
+
+export type { AnalysisProgress };
+
+export interface RunOptions {
+    scoringProfileId?: string | null;
+    normSetId?: string | null;
+    strict?: boolean; // Front only: skip landmark regularization
+    face?: FaceBox; // Face to analyze in a group photo (not used by series)
+    allowLowQuality?: boolean; // Front only: score a photo the quality gate blocked
+    allowNonNeutral?: boolean; // Front only: score a non-neutral expression
+    onProgress?: (progress: AnalysisProgress) => void;
+    signal?: AbortSignal;
+}
+
+type ImageSource = string | HTMLImageElement;
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextId = 1;
+const pending = new Map<number, { resolve: (result: unknown) => void; reject: (e: unknown) => void; onProgress?: RunOptions['onProgress'] }>();
+
+const supportsWorker = () =>
+    !workerUnavailable && typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+function getWorker(): Worker {
+    if (worker) return worker;
+    worker = new Worker(new URL('./analysis.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const message = event.data;
+        const job = pending.get(message.id);
+        if (!job) return; // Cancelled: late messages are dropped
+        if (message.type === 'progress') {
+            job.onProgress?.(message.progress);
+            return;
+        }
+        pending.delete(message.id);
+        if (message.type === 'done') job.resolve(message.result);
+        else job.reject(deserializeAnalysisError(message.error));
+    };
+    worker.onerror = event => {
+        event.preventDefault();
+        failWorker(event.error ?? event.message);
+    };
+    worker.onmessageerror = event => failWorker(event);
+    return worker;
+}
+
+// A crashed worker can't answer its jobs: they fail and later ones run on the main thread
+function failWorker(cause: unknown) {
+    console.warn("Analysis worker failed, using the main thread", cause);
+    worker?.terminate();
+    worker = null;
+    workerUnavailable = true;
+    const jobs = Array.from(pending.values());
+    pending.clear();
+    jobs.forEach(job => job.reject(new WorkerError(cause)));
+}
+
+async function toBitmap(image: ImageSource): Promise<ImageBitmap> {
+    return createImageBitmap(typeof image === 'string' ? await loadImage(image) : image);
+}
+
+function runInWorker<T>(job: AnalysisJob, { onProgress, signal }: RunOptions): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) return reject(new AnalysisCancelledError());
+
+        const id = nextId++;
+        const onAbort = () => {
+            if (!pending.has(id)) return;
+            pending.delete(id);
+            worker?.postMessage({ id, type: 'cancel' } as WorkerRequest);
+            reject(new AnalysisCancelledError());
+        };
+        // One signal can cover many jobs (all faces of a group photo): drop the listener once this one settles
+        pending.set(id, {
+            resolve: result => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(result as T);
+            },
+            reject: e => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(e);
+            },
+            onProgress,
+        });
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const bitmaps = job.kind === 'series' ? job.images : [job.image];
+        getWorker().postMessage({ id, type: 'run', job } as WorkerRequest, bitmaps);
+    });
+}
+
+// Worker first; the main thread takes over for good if the worker crashes or can't load the model
+async function run<T>(makeJob: () => Promise<AnalysisJob>, onMainThread: () => Promise<T>, options: RunOptions): Promise<T> {
+    if (supportsWorker()) {
+        try {
+            return await runInWorker<T>(await makeJob(), options);
+        } catch (e) {
+            if (!isAnalysisError(e) || (e.code !== 'MODEL_LOAD_FAILED' && e.code !== 'WORKER_FAILED')) throw e;
+            if (e.code === 'MODEL_LOAD_FAILED') console.warn("Analysis worker could not load the model, using the main thread", e);
+            workerUnavailable = true;
+        }
+    }
+    return onMainThread();
+}
+
+export function runFaceAnalysis(image: ImageSource, options: RunOptions = {}): Promise<AnalysisResult> {
+    const { scoringProfileId, normSetId, strict, face, allowLowQuality, allowNonNeutral, onProgress, signal } = options;
+    return run<AnalysisResult>(
+        async () => ({ kind: 'front', image: await toBitmap(image), scoringProfileId, normSetId, strict, face, allowLowQuality, allowNonNeutral }),
+        () => analyzeFace(image, {
+            scoringProfile: getScoringProfile(scoringProfileId),
+            norms: getNormSet(normSetId),
+            strict,
+            face,
+            allowLowQuality,
+            allowNonNeutral,
+            onStage: stage => onProgress?.({ stage }),
+            signal,
+        }),
+        options
+    );
+}
+
+export function runProfileAnalysis(image: ImageSource, options: RunOptions = {}): Promise<ProfileAnalysisResult> {
+    const { normSetId, face, onProgress, signal } = options;
+    return run<ProfileAnalysisResult>(
+        async () => ({ kind: 'profile', image: await toBitmap(image), normSetId, face }),
+        () => analyzeProfile(image, { norms: getNormSet(normSetId), face, onStage: stage => onProgress?.({ stage }), signal }),
+        options
+    );
+}
+
+export function runSeriesAnalysis(images: ImageSource[], options: RunOptions = {}): Promise<SeriesAnalysisResult> {
+    const { scoringProfileId, normSetId, strict, onProgress, signal } = options;
+    return run<SeriesAnalysisResult>(
+        async () => ({ kind: 'series', images: await Promise.all(images.map(toBitmap)), scoringProfileId, normSetId, strict }),
+        () => {
+            let index = 1;
+            return analyzeFaceSeries(images, {
+                scoringProfile: getScoringProfile(scoringProfileId),
+                norms: getNormSet(normSetId),
+                strict,
+                signal,
+                onStage: stage => onProgress?.({ stage, photo: { index, total: images.length } }),
+                onProgress: done => { index = done + 1; },
+            });
+        },
+        options
+    );
+}
@@ -0,0 +1,240 @@
+import { getQualityMetrics, getQualityWarnings, WarningCode } from './quality';
+import { getDetector, resolveImage, ImageInput, pickFace, sortedFaceBoxes } from './detector';
+import { toPixelInput } from './canvas';
+import { enterStage, PipelineOptions } from './pipeline';
+import { boxCenter, clamp, dist, calculateAngle, signedDistanceToLine, rangeScore, FaceBox, Point } from './geometry';
+import { DEFAULT_NORM_SET, NormSet, ProfileIdeals, getProfileIdeals } from './norms';
+import { AnatomyError, MultipleFacesError, NoFaceError, NotAProfileError, ValidationRule } from './errors';
+
+export interface ProfileAnalysisResult {
+    view: 'profile';
+    overall: number; // Scaled 0-10
+    facing: 'left' | 'right'; // Direction the nose points on screen
+    visible_side: 'left' | 'right'; // Anatomical side facing the camera
+
+    // Profile Measurements
+    gonial_angle: number; // Degrees (Ramus -> Gonion -> Menton)
+    nasofrontal_angle: number; // Degrees (Glabella -> Nasion -> Pronasale)
+    nasolabial_angle: number; // Degrees (Pronasale -> Subnasale -> Upper Lip)
+    e_line_upper_lip: number; // % of face height, negative = behind the E-line
+    e_line_lower_lip: number; // % of face height, negative = behind the E-line
+    chin_projection: number; // % of face height ahead of the nasion vertical
+    forehead_slope: number; // Degrees back from vertical
+    profile_thirds: [number, number, number]; // Upper / Mid / Lower share of face height (%)
+
+    // Profile Scores (0-100)
+    jaw_score: number;
+    nose_score: number;
+    lip_score: number;
+    chin_score: number;
+    forehead_score: number;
+    thirds_score: number;
+
+    norm_set: string; // NormSet id the scores are read against
+    warnings: WarningCode[];
+    landmarks?: { x: number; y: number }[];
+    manual_landmarks?: number[]; // Indices moved by hand in the landmark editor
+}
+
+export type ProfileScoreKey = 'jaw_score' | 'chin_score' | 'nose_score' | 'lip_score' | 'forehead_score' | 'thirds_score';
+
+// Display order of the profile scores
+export const PROFILE_SCORE_KEYS: ProfileScoreKey[] = ['jaw_score', 'chin_score', 'nose_score', 'lip_score', 'forehead_score', 'thirds_score'];
+
+// Mesh indices along the facial midline, top to bottom
+const PROFILE = {
+    TRICHION: 10,   // Top of forehead (mesh limit)
+    GLABELLA: 9,    // Between eyebrows
+    NASION: 168,    // Bridge root
+    PRONASALE: 1,   // Nose tip
+    SUBNASALE: 2,   // Nose base
+    LABRALE_SUP: 0, // Upper lip
+    STOMION: 13,
+    LABRALE_INF: 17, // Lower lip
+    POGONION: 175,  // Most anterior chin point
+    MENTON: 152,    // Chin bottom
+};
+
+// Side-specific points (mesh "right" = visual left in a frontal photo)
+const SIDE_POINTS = {
+    right: { ear: 234, gonion: 172 },
+    left: { ear: 454, gonion: 397 },
+};
+
+// A frontal face spans ~75% of its height ear-to-ear; a true profile far less.
+const MAX_PROFILE_WIDTH_RATIO = 0.5;
+
+function isProfileView(keypoints: { x: number; y: number }[]): boolean {
+    const faceHeight = dist(keypoints[PROFILE.TRICHION], keypoints[PROFILE.MENTON]);
+    const earSpan = Math.abs(keypoints[SIDE_POINTS.right.ear].x - keypoints[SIDE_POINTS.left.ear].x);
+    return faceHeight > 0 && earSpan / faceHeight < MAX_PROFILE_WIDTH_RATIO;
+}
+
+// Profile anatomy: points must stack top to bottom and the nose must lead
+function findProfileViolation(kp: Point[]): ValidationRule | null {
+    if (!kp || kp.length < 468) return 'too_few_landmarks';
+
+    const nasion = kp[PROFILE.NASION];
+    const nose = kp[PROFILE.PRONASALE];
+    const mouth = kp[PROFILE.STOMION];
+    const chin = kp[PROFILE.MENTON];
+
+    if (!(nasion.y < nose.y && nose.y < mouth.y && mouth.y < chin.y)) {
+        console.warn("Profile: Vertical order invalid");
+        return 'profile_vertical_order';
+    }
+
+    // Nose tip should be the most anterior midline point
+    if (kp[PROFILE.LABRALE_SUP].x > nose.x || kp[PROFILE.POGONION].x > nose.x || nasion.x > nose.x) {
+        console.warn("Profile: Nose is not the most anterior point");
+        return 'profile_nose_not_anterior';
+    }
+
+    return null;
+}
+
+export interface AnalyzeProfileOptions extends PipelineOptions {
+    norms?: NormSet;
+    face?: FaceBox; // Face to analyze in a group photo, from MultipleFacesError.faces
+}
+
+export async function analyzeProfile(
+    imageSource: ImageInput,
+    { norms = DEFAULT_NORM_SET, face, ...pipeline }: AnalyzeProfileOptions = {}
+): Promise<ProfileAnalysisResult> {
+    enterStage(pipeline, 'model');
+    const det = await getDetector();
+    const img = await resolveImage(imageSource);
+
+    enterStage(pipeline, 'detection');
+    const faces = await det.estimateFaces(toPixelInput(img));
+    if (faces.length === 0) throw new NoFaceError();
+    if (faces.length > 1 && !face) throw new MultipleFacesError(sortedFaceBoxes(faces));
+
+    const keypoints = (face ? pickFace(faces, boxCenter(face)) : faces[0]).keypoints;
+    if (keypoints.length < 468) {
+        throw new AnatomyError('too_few_landmarks');
+    }
+    if (!isProfileView(keypoints)) {
+        throw new NotAProfileError('profile_too_wide');
+    }
+
+    // Single pass: the profile pipeline has no refinement stage
+    enterStage(pipeline, 'scoring');
+    const result = scoreProfileLandmarks(keypoints, { norms });
+    return { ...result, warnings: getQualityWarnings(getQualityMetrics(img)) };
+}
+
+// Scoring stage only: measures and scores profile landmarks, without quality warnings
+export function scoreProfileLandmarks(
+    keypoints: { x: number; y: number; z?: number }[],
+    { norms = DEFAULT_NORM_SET }: AnalyzeProfileOptions = {}
+): ProfileAnalysisResult {
+    // The side closer to the camera has the smaller z
+    const zRight = keypoints[SIDE_POINTS.right.ear].z ?? 0;
+    const zLeft = keypoints[SIDE_POINTS.left.ear].z ?? 0;
+    const visible_side: 'left' | 'right' = zRight <= zLeft ? 'right' : 'left';
+    const side = SIDE_POINTS[visible_side];
+
+    // Normalize so that "forward" (towards the nose) is always +x
+    const facing: 'left' | 'right' = keypoints[PROFILE.PRONASALE].x >= keypoints[side.ear].x ? 'right' : 'left';
+    const dir = facing === 'right' ? 1 : -1;
+    const kp = keypoints.map(p => ({ x: p.x * dir, y: p.y }));
+    const get = (idx: number) => kp[idx];
+
+    const violation = findProfileViolation(kp);
+    if (violation) throw new AnatomyError(violation, 'FACE_ALIGNMENT');
+
+    const trichion = get(PROFILE.TRICHION);
+    const glabella = get(PROFILE.GLABELLA);
+    const nasion = get(PROFILE.NASION);
+    const pronasale = get(PROFILE.PRONASALE);
+    const subnasale = get(PROFILE.SUBNASALE);
+    const upperLip = get(PROFILE.LABRALE_SUP);
+    const lowerLip = get(PROFILE.LABRALE_INF);
+    const pogonion = get(PROFILE.POGONION);
+    const menton = get(PROFILE.MENTON);
+
+    const faceHeight = Math.abs(menton.y - trichion.y);
+    const pct = (d: number) => (d / faceHeight) * 100;
+
+    // 1. Gonial Angle (visible side)
+    const gonial_angle = calculateAngle(get(side.ear), get(side.gonion), menton);
+
+    // 2. Nose Angles
+    const nasofrontal_angle = calculateAngle(glabella, nasion, pronasale);
+    const nasolabial_angle = calculateAngle(pronasale, subnasale, upperLip);
+
+    // 3. Ricketts E-line (Pronasale -> Pogonion)
+    // Going down the line in normalized space, "left" of the direction is anterior.
+    const e_line_upper_lip = pct(signedDistanceToLine(upperLip, pronasale, pogonion));
+    const e_line_lower_lip = pct(signedDistanceToLine(lowerLip, pronasale, pogonion));
+
+    // 4. Chin Projection (distance ahead of the vertical through soft-tissue nasion)
+    const chin_projection = pct(pogonion.x - nasion.x);
+
+    // 5. Forehead Slope (positive = forehead recedes above the brow)
+    const forehead_slope = (Math.atan2(glabella.x - trichion.x, glabella.y - trichion.y) * 180) / Math.PI;
+
+    // 6. Vertical Thirds in profile
+    const upperThird = Math.abs(glabella.y - trichion.y);
+    const midThird = Math.abs(subnasale.y - glabella.y);
+    const lowerThird = Math.abs(menton.y - subnasale.y);
+    const profile_thirds: [number, number, number] = [pct(upperThird), pct(midThird), pct(lowerThird)];
+    const maxThirdDev = Math.max(...profile_thirds.map(t => Math.abs(t - 100 / 3)));
+    const thirds_score = Math.round(Math.max(0, 100 - (maxThirdDev / (100 / 3)) * 300));
+
+    // Scores against the selected norm set (degrees / % of face height)
+    const ideals = getProfileIdeals(norms);
+    const scoreIdeal = (key: keyof ProfileIdeals, x: number) =>
+        rangeScore(x, ideals[key].min, ideals[key].max, ideals[key].falloff);
+
+    const jaw_score = Math.round(scoreIdeal('gonial_angle', gonial_angle));
+    const nose_score = Math.round(
+        0.5 * scoreIdeal('nasofrontal_angle', nasofrontal_angle) +
+        0.5 * scoreIdeal('nasolabial_angle', nasolabial_angle)
+    );
+    const lip_score = Math.round(
+        0.5 * scoreIdeal('e_line_upper_lip', e_line_upper_lip) +
+        0.5 * scoreIdeal('e_line_lower_lip', e_line_lower_lip)
+    );
+    const chin_score = Math.round(
+        0.6 * scoreIdeal('chin_projection', chin_projection) +
+        0.4 * scoreIdeal('e_line_lower_lip', e_line_lower_lip)
+    );
+    const forehead_score = Math.round(scoreIdeal('forehead_slope', forehead_slope));
+
+    const weightedSum =
+        0.25 * jaw_score +
+        0.20 * chin_score +
+        0.20 * nose_score +
+        0.15 * lip_score +
+        0.10 * forehead_score +
+        0.10 * thirds_score;
+
+    const overall = Math.round(clamp(weightedSum / 10, 0, 10));
+
+    return {
+        view: 'profile',
+        overall,
+        facing,
+        visible_side,
+        gonial_angle: Number(gonial_angle.toFixed(1)),
+        nasofrontal_angle: Number(nasofrontal_angle.toFixed(1)),
+        nasolabial_angle: Number(nasolabial_angle.toFixed(1)),
+        e_line_upper_lip: Number(e_line_upper_lip.toFixed(1)),
+        e_line_lower_lip: Number(e_line_lower_lip.toFixed(1)),
+        chin_projection: Number(chin_projection.toFixed(1)),
+        forehead_slope: Number(forehead_slope.toFixed(1)),
+        profile_thirds: profile_thirds.map(t => Number(t.toFixed(1))) as [number, number, number],
+        jaw_score,
+        nose_score,
+        lip_score,
+        chin_score,
+        forehead_score,
+        thirds_score,
+        norm_set: norms.id,
+        warnings: [],
+        landmarks: keypoints
+    };
+}
@@ -0,0 +1,31 @@
+/**
+ * Self-hosted model assets. Everything is served from the static export under
+ * MODEL_BASE_PATH (see scripts/prepare-model-assets.mjs), so analysis needs no CDN.
+ */
+
+// Sub-path the app is served from (NEXT_PUBLIC_BASE_PATH, see next.config.mjs); '' at the root
+export const BASE_PATH = (process.env.NEXT_PUBLIC_BASE_PATH || '').replace(/\/+$/, '');
+
+// Override with NEXT_PUBLIC_MODEL_BASE_PATH, e.g. for a separate asset host
+export const MODEL_BASE_PATH = (process.env.NEXT_PUBLIC_MODEL_BASE_PATH || `${BASE_PATH}/models`).replace(/\/+$/, '');
+
+export const MODEL_ASSETS = {
+    // MediaPipe runtime: wasm, packed graph and loader scripts
+    solutionPath: `${MODEL_BASE_PATH}/face_mesh`,
+    // tfjs runtime fallback
+    detectorModelUrl: `${MODEL_BASE_PATH}/face_detection_short/model.json`,
+    landmarkModelUrl: `${MODEL_BASE_PATH}/attention_mesh/model.json`,
+    // File list the service worker precaches (models, plus the build's chunks after `build`)
+    manifestUrl: `${MODEL_BASE_PATH}/manifest.json`,
+};
+
+// Precaches the model assets and app shell so analysis works offline after the first visit
+export function registerServiceWorker() {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+    // Dev server chunks change on every edit: caching them only gets in the way
+    if (process.env.NODE_ENV !== 'production') return;
+
+    // A new build id is a new worker URL: the browser installs it and precaches that build's chunks
+    const url = `${BASE_PATH}/sw.js?models=${encodeURIComponent(MODEL_BASE_PATH)}&build=${encodeURIComponent(process.env.NEXT_PUBLIC_BUILD_ID ?? '')}`;
+    navigator.serviceWorker.register(url).catch(err => console.warn("Service worker registration failed:", err));
+}
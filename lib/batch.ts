@@ -0,0 +1,91 @@
+import { AnalysisResult } from './analyzeFace';
+import { ProfileAnalysisResult } from './analyzeProfile';
+import { SerializedAnalysisError } from './errors';
+
+/**
+ * Reports over a folder of photos (scripts/analyze.ts): every result as JSON,
+ * and a CSV with one row per photo and one column per measurement and score.
+ */
+
+type AnyResult = AnalysisResult | ProfileAnalysisResult;
+
+export interface BatchEntry {
+    file: string; // Relative to the analyzed folder
+    result?: AnyResult;
+    error?: SerializedAnalysisError;
+}
+
+// Bump when the report shape changes incompatibly
+export const BATCH_SCHEMA_VERSION = 1;
+export const BATCH_SCHEMA = 'looksrate.batch';
+
+export interface BatchReport {
+    schema: typeof BATCH_SCHEMA;
+    schema_version: number;
+    created_at: string; // ISO 8601
+    options: Record<string, string | boolean>; // What the folder was analyzed with
+    entries: BatchEntry[];
+}
+
+export function buildBatchReport(entries: BatchEntry[], options: BatchReport['options']): BatchReport {
+    return {
+        schema: BATCH_SCHEMA,
+        schema_version: BATCH_SCHEMA_VERSION,
+        created_at: new Date().toISOString(),
+        options,
+        entries,
+    };
+}
+
+// --- CSV ---
+
+type Cell = string | number | boolean;
+
+// Point lists and per-score breakdowns stay in the JSON: they don't map to columns
+const SKIPPED_KEYS = new Set(['landmarks', 'manual_landmarks', 'breakdown', 'regularization']);
+
+// Nested objects become dotted columns; number arrays one column per item, string arrays one cell
+function flatten(value: unknown, key: string, row: Record<string, Cell>) {
+    if (value === null || value === undefined) return;
+    if (Array.isArray(value)) {
+        if (value.every(v => typeof v === 'number')) value.forEach((v, i) => flatten(v, `${key}.${i}`, row));
+        else if (value.every(v => typeof v === 'string')) row[key] = value.join(' ');
+        return;
+    }
+    if (typeof value === 'object') {
+        for (const [k, v] of Object.entries(value)) {
+            if (!SKIPPED_KEYS.has(k)) flatten(v, key ? `${key}.${k}` : k, row);
+        }
+        return;
+    }
+    row[key] = value as Cell;
+}
+
+function batchRow({ file, result, error }: BatchEntry): Record<string, Cell> {
+    const row: Record<string, Cell> = { file, status: error ? 'error' : 'ok' };
+    if (error) {
+        row.error_code = error.code;
+        if (error.rule) row.error_rule = error.rule;
+        row.error_message = error.message;
+    }
+    if (!result) return row;
+
+    // One column per quality check instead of an array of objects
+    const gate = result.view === 'front' ? result.quality_gate : undefined;
+    const checks = gate && Object.fromEntries(gate.checks.map(c => [c.id, c.value]));
+    flatten({ ...result, quality_gate: gate && { verdict: gate.verdict, ...checks } }, '', row);
+    return row;
+}
+
+const csvCell = (value: Cell | undefined) => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Columns are the union over all rows, in first-seen order: front and profile results share a file
+export function batchToCSV(entries: BatchEntry[]): string {
+    const rows = entries.map(batchRow);
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    const lines = [columns, ...rows.map(row => columns.map(c => row[c]))];
+    return lines.map(cells => cells.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,44 @@
+import { CanvasError } from './errors';
+
+/**
+ * Canvas helpers that work on the main thread (DOM canvas), inside the analysis
+ * worker (OffscreenCanvas / ImageBitmap) and under Node, where a headless canvas
+ * implementation is plugged in with setCanvasFactory (see lib/node.ts).
+ */
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+// Anything the pipeline can draw from
+export type DrawableImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap | OffscreenCanvas;
+
+export type CanvasFactory = (width: number, height: number) => AnyCanvas;
+
+let canvasFactory: CanvasFactory | null = null;
+
+// Replaces DOM / OffscreenCanvas creation; canvases it returns are read as raw pixels by the detector
+export function setCanvasFactory(factory: CanvasFactory | null) {
+    canvasFactory = factory;
+}
+
+export function createCanvas(width: number, height: number): AnyCanvas {
+    if (canvasFactory) return canvasFactory(width, height);
+    if (typeof document === 'undefined') return new OffscreenCanvas(width, height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+}
+
+export function getContext2D(canvas: AnyCanvas, settings?: CanvasRenderingContext2DSettings): AnyContext2D {
+    const ctx = canvas.getContext('2d', settings) as AnyContext2D | null;
+    if (!ctx) throw new CanvasError();
+    return ctx;
+}
+
+// The detector takes DOM canvases and bitmaps directly; OffscreenCanvas and headless canvases go in as pixels
+export function toPixelInput(image: DrawableImage): HTMLImageElement | HTMLCanvasElement | ImageBitmap | ImageData {
+    if (canvasFactory || (typeof OffscreenCanvas !== 'undefined' && image instanceof OffscreenCanvas)) {
+        return getContext2D(image as AnyCanvas).getImageData(0, 0, image.width, image.height);
+    }
+    return image as HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+}
@@ -0,0 +1,95 @@
+import { AnalysisResult } from './analyzeFace';
+import { ProfileAnalysisResult } from './analyzeProfile';
+import { clamp } from './geometry';
+
+/**
+ * Merges a front and a side analysis of the same face into a single verdict
+ */
+
+export type ReportComponentKey =
+    | 'symmetry'
+    | 'facial_thirds'
+    | 'facial_fifths'
+    | 'golden_ratio'
+    | 'jaw'
+    | 'nose'
+    | 'chin'
+    | 'lips'
+    | 'forehead';
+
+// Metrics both views measure, checked for agreement
+export type DisagreementMetric = 'jaw_angle' | 'jawline' | 'facial_thirds' | 'nose';
+
+export interface ReportComponent {
+    key: ReportComponentKey;
+    score: number; // 0-100
+    weight: number;
+    source: 'front' | 'profile' | 'both';
+}
+
+export interface ReportDisagreement {
+    metric: DisagreementMetric;
+    front: number;
+    profile: number;
+    difference: number;
+    threshold: number;
+    unit: string;
+}
+
+export interface CombinedReport {
+    overall: number; // Scaled 0-10
+    front_overall: number;
+    profile_overall: number;
+    components: ReportComponent[];
+    disagreements: ReportDisagreement[];
+}
+
+// Views measure the gonial angle differently (projected vs true profile),
+// so only large gaps are reported.
+const JAW_ANGLE_TOLERANCE = 15; // Degrees
+const SCORE_TOLERANCE = 25; // Points (0-100)
+
+export function combineResults(front: AnalysisResult, profile: ProfileAnalysisResult): CombinedReport {
+    const components: ReportComponent[] = [
+        { key: 'symmetry', score: front.scores.symmetry, weight: 0.20, source: 'front' },
+        { key: 'facial_thirds', score: Math.round((front.scores.facial_thirds + profile.thirds_score) / 2), weight: 0.15, source: 'both' },
+        { key: 'facial_fifths', score: front.scores.facial_fifths, weight: 0.10, source: 'front' },
+        { key: 'golden_ratio', score: front.scores.golden_ratio, weight: 0.10, source: 'front' },
+        { key: 'jaw', score: Math.round((front.scores.jawline + profile.jaw_score) / 2), weight: 0.15, source: 'both' },
+        { key: 'nose', score: Math.round((front.scores.nose_score + profile.nose_score) / 2), weight: 0.10, source: 'both' },
+        { key: 'chin', score: profile.chin_score, weight: 0.10, source: 'profile' },
+        { key: 'lips', score: profile.lip_score, weight: 0.05, source: 'profile' },
+        { key: 'forehead', score: profile.forehead_score, weight: 0.05, source: 'profile' },
+    ];
+
+    const weightedSum = components.reduce((sum, c) => sum + c.weight * c.score, 0);
+    const overall = Math.round(clamp(weightedSum / 10, 0, 10));
+
+    const disagreements: ReportDisagreement[] = [];
+    const compare = (metric: DisagreementMetric, a: number, b: number, threshold: number, unit: string) => {
+        const difference = Math.abs(a - b);
+        if (difference > threshold) {
+            disagreements.push({
+                metric,
+                front: Number(a.toFixed(1)),
+                profile: Number(b.toFixed(1)),
+                difference: Number(difference.toFixed(1)),
+                threshold,
+                unit,
+            });
+        }
+    };
+
+    compare('jaw_angle', front.measurements.angles.jaw_angle, profile.gonial_angle, JAW_ANGLE_TOLERANCE, '°');
+    compare('jawline', front.scores.jawline, profile.jaw_score, SCORE_TOLERANCE, '%');
+    compare('facial_thirds', front.scores.facial_thirds, profile.thirds_score, SCORE_TOLERANCE, '%');
+    compare('nose', front.scores.nose_score, profile.nose_score, SCORE_TOLERANCE, '%');
+
+    return {
+        overall,
+        front_overall: front.overall,
+        profile_overall: profile.overall,
+        components,
+        disagreements,
+    };
+}
@@ -0,0 +1,64 @@
+import { AnalysisResult } from './analyzeFace';
+import { ScoreKey } from './scoring';
+import { clamp } from './geometry';
+
+/**
+ * Before/after deltas with a significance hint: a change smaller than the
+ * estimated retake-to-retake spread of a score is treated as noise.
+ */
+
+export type DeltaSignificance = 'noise' | 'possible' | 'significant';
+
+export interface MetricDelta {
+    key: ScoreKey | 'overall';
+    before: number;
+    after: number;
+    delta: number;
+    noise: number; // Typical spread between two photos of the same unchanged face
+    significance: DeltaSignificance;
+}
+
+// Estimated retake spread (score points; overall on the unrounded 0-10 scale): hand-picked,
+// not fitted to measurements. Lighting-sensitive scores get the widest margins. Replace with
+// measured spreads (e.g. series bootstrap intervals) once there is data behind them.
+export const SCORE_NOISE: Record<ScoreKey | 'overall', number> = {
+    overall: 0.3,
+    symmetry: 4,
+    golden_ratio: 3,
+    proportions: 3,
+    harmony: 3,
+    skin_quality: 8,
+    jawline: 4,
+    cheekbones: 4,
+    facial_thirds: 4,
+    facial_fifths: 4,
+    eye_score: 5,
+    nose_score: 4,
+    dimorphism: 5,
+};
+
+export function significanceOf(delta: number, noise: number): DeltaSignificance {
+    const size = Math.abs(delta);
+    if (size < noise) return 'noise';
+    if (size < 2 * noise) return 'possible';
+    return 'significant';
+}
+
+// Overall before rounding to a whole point, to 0.1: a 0.3 spread is invisible on the integer
+const unroundedOverall = (result: AnalysisResult) =>
+    Math.round(clamp(result.overall - result.breakdown.rounding, 0, 10) * 10) / 10;
+
+export function compareResults(before: AnalysisResult, after: AnalysisResult): MetricDelta[] {
+    const rows: { key: ScoreKey | 'overall'; before: number | null; after: number | null }[] = [
+        { key: 'overall', before: unroundedOverall(before), after: unroundedOverall(after) },
+        ...(Object.keys(before.scores) as ScoreKey[]).map(key => ({ key, before: before.scores[key], after: after.scores[key] })),
+    ];
+
+    return rows
+        .filter((r): r is { key: ScoreKey | 'overall'; before: number; after: number } => r.before !== null && r.after !== null)
+        .map(({ key, before, after }) => {
+            const delta = Math.round((after - before) * 10) / 10;
+            const noise = SCORE_NOISE[key];
+            return { key, before, after, delta, noise, significance: significanceOf(delta, noise) };
+        });
+}
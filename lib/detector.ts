@@ -0,0 +1,149 @@
+import * as faceLandmarksDetection from '@tensorflow-models/face-landmarks-detection';
+import '@tensorflow/tfjs-backend-webgl';
+import { io } from '@tensorflow/tfjs-core';
+import { ModelLoadError } from './errors';
+import { DrawableImage } from './canvas';
+import { boxCenter, dist, FaceBox, Point } from './geometry';
+import { MODEL_ASSETS } from './assets';
+
+/**
+ * Shared MediaPipe face-mesh detector used by the front and profile pipelines.
+ * Assets are self-hosted (lib/assets.ts); the tfjs runtime is the fallback, and
+ * the only runtime in workers and under Node (lib/node.ts).
+ */
+
+let detector: faceLandmarksDetection.FaceLandmarksDetector | null = null;
+
+export type DetectorRuntime = 'mediapipe' | 'tfjs';
+// Runtime the current detector was created with (null until loaded)
+export let detectorRuntime: DetectorRuntime | null = null;
+
+const model = faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh;
+
+// Group photos: every face is returned and the caller picks one
+export const MAX_FACES = 6;
+
+const COMMON_CONFIG = {
+    refineLandmarks: true,
+    maxFaces: MAX_FACES,
+};
+
+function createMediaPipeDetector() {
+    return faceLandmarksDetection.createDetector(model, {
+        ...COMMON_CONFIG,
+        runtime: 'mediapipe',
+        solutionPath: MODEL_ASSETS.solutionPath,
+        // @ts-ignore
+        minDetectionConfidence: 0.75, // Increased from 0.7
+        minTrackingConfidence: 0.75
+    });
+}
+
+// Where the tfjs runtime reads its models: URLs in the browser, file readers under Node
+export interface TfjsModelSources {
+    detectorModelUrl: string | io.IOHandler;
+    landmarkModelUrl: string | io.IOHandler;
+}
+
+let tfjsModels: TfjsModelSources = MODEL_ASSETS;
+
+// Must be called before the first getDetector()
+export function setTfjsModelSources(sources: TfjsModelSources) {
+    tfjsModels = sources;
+}
+
+// Pure tfjs runtime (WebGL; wasm under Node): slower, but works where the MediaPipe wasm can't load
+function createTfjsDetector() {
+    return faceLandmarksDetection.createDetector(model, {
+        ...COMMON_CONFIG,
+        runtime: 'tfjs',
+        detectorModelUrl: tfjsModels.detectorModelUrl,
+        landmarkModelUrl: tfjsModels.landmarkModelUrl,
+    });
+}
+
+// Workers and Node have no DOM for the MediaPipe loader: go straight to tfjs
+const isWorker = typeof document === 'undefined';
+
+export async function getDetector() {
+    if (detector) return detector;
+    if (isWorker) {
+        try {
+            detector = await createTfjsDetector();
+            detectorRuntime = 'tfjs';
+        } catch (e) {
+            throw new ModelLoadError(e);
+        }
+        return detector;
+    }
+    try {
+        detector = await createMediaPipeDetector();
+        detectorRuntime = 'mediapipe';
+    } catch (mediapipeError) {
+        console.warn("Detector: MediaPipe runtime failed, falling back to tfjs", mediapipeError);
+        try {
+            detector = await createTfjsDetector();
+            detectorRuntime = 'tfjs';
+        } catch (e) {
+            throw new ModelLoadError(e);
+        }
+    }
+    return detector;
+}
+
+export const faceBox = ({ box }: faceLandmarksDetection.Face): FaceBox =>
+    ({ x: box.xMin, y: box.yMin, width: box.width, height: box.height });
+
+// Boxes in reading order (left to right), so face numbers are stable for the user
+export const sortedFaceBoxes = (faces: faceLandmarksDetection.Face[]) =>
+    faces.map(faceBox).sort((a, b) => a.x - b.x);
+
+// The face whose box center is closest to `target`
+export function pickFace<T extends faceLandmarksDetection.Face>(faces: T[], target: Point): T {
+    return faces.reduce((best, face) =>
+        dist(boxCenter(faceBox(face)), target) < dist(boxCenter(faceBox(best)), target) ? face : best
+    );
+}
+
+// Helper to load image from src to ensure Natural Resolution
+export function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = src;
+    });
+}
+
+// What the analysis entry points accept: a URL / data URL (a file path under Node), an <img>, or a decoded bitmap (worker)
+export type ImageInput = string | HTMLImageElement | ImageBitmap;
+
+// Worker-side equivalent of loadImage
+async function loadBitmap(src: string): Promise<ImageBitmap> {
+    const res = await fetch(src);
+    return createImageBitmap(await res.blob());
+}
+
+export type ImageLoader = (src: string) => Promise<DrawableImage>;
+
+// Decodes string sources where neither <img> nor createImageBitmap exist (Node)
+let imageLoader: ImageLoader | null = null;
+
+export function setImageLoader(loader: ImageLoader | null) {
+    imageLoader = loader;
+}
+
+// Resolves an image source to a naturally sized image (an ImageBitmap inside the worker)
+export async function resolveImage(imageSource: ImageInput): Promise<DrawableImage> {
+    if (typeof imageSource === 'string') {
+        if (imageLoader) return imageLoader(imageSource);
+        return isWorker ? loadBitmap(imageSource) : loadImage(imageSource);
+    }
+    if (!('src' in imageSource)) return imageSource; // Already decoded at natural size
+    // If element passed, verify it's loaded. 
+    // Best to clone it to avoid CSS scaling issues if TFJS uses .width/.height
+    // But TFJS uses content. To be safe, we create a fresh image.
+    if (imageSource.src) return loadImage(imageSource.src);
+    return imageSource; // Fallback
+}
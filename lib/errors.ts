@@ -0,0 +1,179 @@
+import type { FaceBox } from './geometry';
+import type { QualityReport } from './qualityGate';
+import type { ExpressionReport } from './expression';
+
+/**
+ * Typed analysis errors: a stable code for the UI and the validation rule that
+ * failed (when there is one). Messages are for logs; the UI renders the code
+ * in its own language (see `describeError` in i18n.ts).
+ */
+
+export type AnalysisErrorCode =
+    | 'NO_FACE'
+    | 'MULTIPLE_FACES'
+    | 'INVALID_ANATOMY'
+    | 'FACE_ALIGNMENT'
+    | 'HEAD_POSE'
+    | 'LOW_QUALITY'
+    | 'NON_NEUTRAL_EXPRESSION'
+    | 'NOT_A_PROFILE'
+    | 'MODEL_LOAD_FAILED'
+    | 'CANVAS_UNAVAILABLE'
+    | 'WORKER_FAILED'
+    | 'SERIES_SIZE'
+    | 'SERIES_TOO_FEW_FACES'
+    | 'INVALID_IMPORT'
+    | 'CANCELLED'
+    | 'UNKNOWN';
+
+// Which check rejected the landmarks
+export type ValidationRule =
+    | 'too_few_landmarks'
+    | 'eyes_below_nose'
+    | 'nose_below_mouth'
+    | 'mouth_below_chin'
+    | 'horizontal_misalignment'
+    | 'head_yaw'
+    | 'head_pitch'
+    | 'profile_vertical_order'
+    | 'profile_nose_not_anterior'
+    | 'profile_too_wide';
+
+export type ImportErrorReason = 'format' | 'version' | 'landmarks';
+
+export class AnalysisError extends Error {
+    readonly code: AnalysisErrorCode;
+    readonly rule?: ValidationRule;
+    readonly cause?: unknown;
+
+    constructor(code: AnalysisErrorCode, message: string, options: { rule?: ValidationRule; cause?: unknown } = {}) {
+        super(message);
+        // Keep instanceof working when compiled to ES5
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = new.target.name;
+        this.code = code;
+        this.rule = options.rule;
+        this.cause = options.cause;
+    }
+}
+
+export class NoFaceError extends AnalysisError {
+    constructor() {
+        super('NO_FACE', 'No face detected');
+    }
+}
+
+export class MultipleFacesError extends AnalysisError {
+    constructor(readonly faces: FaceBox[]) {
+        super('MULTIPLE_FACES', `Multiple faces detected (${faces.length})`);
+    }
+}
+
+export class AnatomyError extends AnalysisError {
+    constructor(rule: ValidationRule, code: 'INVALID_ANATOMY' | 'FACE_ALIGNMENT' = 'INVALID_ANATOMY') {
+        super(code, code === 'FACE_ALIGNMENT' ? 'Face landmarks could not be aligned' : 'Face landmarks are implausible', { rule });
+    }
+}
+
+export class HeadPoseError extends AnalysisError {
+    constructor(rule: 'head_yaw' | 'head_pitch', readonly degrees: number) {
+        super('HEAD_POSE', rule === 'head_yaw' ? 'Head turned to the side' : 'Head tilted up or down', { rule });
+    }
+}
+
+// The quality gate blocked the photo; the blocking checks explain why
+export class QualityGateError extends AnalysisError {
+    constructor(readonly report: QualityReport) {
+        const blocking = report.checks.filter(c => c.status === 'block').map(c => c.id);
+        super('LOW_QUALITY', `Photo quality too low for analysis (${blocking.join(', ')})`);
+    }
+}
+
+export class ExpressionError extends AnalysisError {
+    constructor(readonly report: ExpressionReport) {
+        super('NON_NEUTRAL_EXPRESSION', `Non-neutral expression (${report.detected.join(', ')})`);
+    }
+}
+
+export class NotAProfileError extends AnalysisError {
+    constructor(rule?: ValidationRule) {
+        super('NOT_A_PROFILE', 'Side profile not recognized', { rule });
+    }
+}
+
+export class ModelLoadError extends AnalysisError {
+    constructor(cause: unknown) {
+        super('MODEL_LOAD_FAILED', 'Face detection model failed to load', { cause });
+    }
+}
+
+export class CanvasError extends AnalysisError {
+    constructor() {
+        super('CANVAS_UNAVAILABLE', 'Could not create a canvas for processing');
+    }
+}
+
+// The analysis worker crashed or sent a message that couldn't be read
+export class WorkerError extends AnalysisError {
+    constructor(cause: unknown) {
+        super('WORKER_FAILED', 'Analysis worker failed', { cause });
+    }
+}
+
+export class SeriesError extends AnalysisError {
+    constructor(code: 'SERIES_SIZE' | 'SERIES_TOO_FEW_FACES') {
+        super(code, code === 'SERIES_SIZE' ? 'Wrong number of photos in the series' : 'Face found on too few photos of the series');
+    }
+}
+
+export class ImportError extends AnalysisError {
+    constructor(readonly reason: ImportErrorReason, cause?: unknown) {
+        const message = {
+            format: 'File is not an analysis export',
+            version: 'Unsupported export version',
+            landmarks: 'Export has no landmarks to re-score from',
+        }[reason];
+        super('INVALID_IMPORT', message, { cause });
+    }
+}
+
+export class AnalysisCancelledError extends AnalysisError {
+    constructor() {
+        super('CANCELLED', 'Analysis cancelled');
+    }
+}
+
+export const isAnalysisError = (e: unknown): e is AnalysisError => e instanceof AnalysisError;
+
+// Anything thrown from the pipeline, as an AnalysisError the UI can render
+export function toAnalysisError(e: unknown): AnalysisError {
+    if (isAnalysisError(e)) return e;
+    return new AnalysisError('UNKNOWN', 'Analysis failed', { cause: e });
+}
+
+// Errors cross the worker boundary as plain objects: classes don't survive postMessage
+export interface SerializedAnalysisError {
+    code: AnalysisErrorCode;
+    message: string;
+    rule?: ValidationRule;
+    faces?: FaceBox[]; // MULTIPLE_FACES only
+    quality?: QualityReport; // LOW_QUALITY only
+    expression?: ExpressionReport; // NON_NEUTRAL_EXPRESSION only
+}
+
+export const serializeAnalysisError = (e: AnalysisError): SerializedAnalysisError => ({
+    code: e.code,
+    message: e.message,
+    rule: e.rule,
+    faces: e instanceof MultipleFacesError ? e.faces : undefined,
+    quality: e instanceof QualityGateError ? e.report : undefined,
+    expression: e instanceof ExpressionError ? e.report : undefined,
+});
+
+export function deserializeAnalysisError({ code, message, rule, faces, quality, expression }: SerializedAnalysisError): AnalysisError {
+    if (code === 'CANCELLED') return new AnalysisCancelledError();
+    if (code === 'MULTIPLE_FACES' && faces) return new MultipleFacesError(faces);
+    if (code === 'LOW_QUALITY' && quality) return new QualityGateError(quality);
+    if (code === 'NON_NEUTRAL_EXPRESSION' && expression) return new ExpressionError(expression);
+    return new AnalysisError(code, message, { rule });
+}
@@ -0,0 +1,386 @@
+import { AnalysisResult } from './analyzeFace';
+import { ProfileAnalysisResult, PROFILE_SCORE_KEYS } from './analyzeProfile';
+import { loadImage } from './detector';
+import { drawAnalysis, drawProfileAnalysis } from './visualize';
+import { ScoreKey, ScoreTerm } from './scoring';
+import { buildPdf, PdfPage } from './pdf';
+import { CanvasError } from './errors';
+import { normSetLabel, Translator } from './i18n';
+
+/**
+ * Client-side exports of an analysis: a PNG share card, a multi-page PDF report
+ * and the raw result as versioned JSON. Nothing leaves the device. Card and
+ * report are written in the translator's language.
+ */
+
+type AnyResult = AnalysisResult | ProfileAnalysisResult;
+
+// Bump when the exported result shape changes incompatibly
+export const EXPORT_SCHEMA_VERSION = 1;
+export const EXPORT_SCHEMA = 'looksrate.analysis';
+
+export interface AnalysisExport {
+    schema: typeof EXPORT_SCHEMA;
+    schema_version: number;
+    exported_at: string; // ISO 8601
+    result: AnyResult; // Includes landmarks
+}
+
+const FONT = '-apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif';
+const ACCENT = '#22d3ee';
+
+function newCanvas(width: number, height: number) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new CanvasError();
+    return { canvas, ctx };
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) =>
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new CanvasError())), type, quality)
+    );
+}
+
+const scoreRows = (result: AnyResult, { t }: Translator) =>
+    result.view === 'profile'
+        ? PROFILE_SCORE_KEYS.map(key => ({ key, label: t.profileScores[key], value: result[key] }))
+        : (Object.keys(result.scores) as ScoreKey[])
+            .filter(key => result.scores[key] !== null)
+            .map(key => ({ key, label: t.scores[key], value: result.scores[key] as number }));
+
+// Ratios need more precision than angles and pixel distances
+const formatValue = (i18n: Translator, x: number) => i18n.number(x, Math.abs(x) < 10 ? 2 : 1);
+
+const formatIdeal = (i18n: Translator, [min, max]: ScoreTerm['ideal']) => {
+    const f = (x: number) => formatValue(i18n, x);
+    if (min !== null && max !== null) return min === max ? f(min) : `${f(min)} – ${f(max)}`;
+    if (min !== null) return `≥ ${f(min)}`;
+    if (max !== null) return `≤ ${f(max)}`;
+    return '—';
+};
+
+// Photo with the landmark overlay, at the photo's own resolution
+async function renderAnnotatedPhoto(imageSrc: string, result: AnyResult): Promise<HTMLCanvasElement> {
+    const img = await loadImage(imageSrc);
+    const { canvas, ctx } = newCanvas(img.width, img.height);
+    ctx.drawImage(img, 0, 0);
+
+    if (result.landmarks) {
+        // The overlay clears its canvas, so it gets its own layer
+        const overlay = newCanvas(img.width, img.height);
+        if (result.view === 'profile') {
+            drawProfileAnalysis(overlay.ctx, result.landmarks, img.width, img.height, result.visible_side);
+        } else {
+            drawAnalysis(overlay.ctx, result.landmarks, img.width, img.height);
+        }
+        ctx.drawImage(overlay.canvas, 0, 0);
+    }
+    return canvas;
+}
+
+// Draws `source` to cover the box, cropping the overflow (CSS object-fit: cover)
+function drawCover(ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, x: number, y: number, w: number, h: number) {
+    const scale = Math.max(w / source.width, h / source.height);
+    const sw = w / scale;
+    const sh = h / scale;
+    ctx.drawImage(source, (source.width - sw) / 2, (source.height - sh) / 2, sw, sh, x, y, w, h);
+}
+
+function drawBar(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, value: number, color: string) {
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+    ctx.fillRect(x, y, w, 6);
+    ctx.fillStyle = color;
+    ctx.fillRect(x, y, (w * Math.max(0, Math.min(100, value))) / 100, 6);
+}
+
+const subtitle = (result: AnyResult, { t }: Translator) =>
+    result.view === 'profile'
+        ? `${t.result.profile} • ${normSetLabel(t, result.norm_set)}`
+        : `${t.faceShapes[result.face_shape] ?? result.face_shape} • ${t.result.potential} ${result.potential}`;
+
+// --- PNG share card ---
+
+const CARD = { width: 1080, height: 1350 };
+
+export async function renderShareCard(imageSrc: string, result: AnyResult, i18n: Translator): Promise<Blob> {
+    const photo = await renderAnnotatedPhoto(imageSrc, result);
+    const { canvas, ctx } = newCanvas(CARD.width, CARD.height);
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, CARD.width, CARD.height);
+    drawCover(ctx, photo, 0, 0, CARD.width, 760);
+
+    // Fade the photo into the summary panel
+    const fade = ctx.createLinearGradient(0, 560, 0, 760);
+    fade.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    fade.addColorStop(1, '#000');
+    ctx.fillStyle = fade;
+    ctx.fillRect(0, 560, CARD.width, 200);
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#fff';
+    ctx.font = `100 180px ${FONT}`;
+    ctx.fillText(String(result.overall), CARD.width / 2, 830);
+    ctx.fillStyle = ACCENT;
+    ctx.font = `500 30px ${FONT}`;
+    ctx.fillText(subtitle(result, i18n).toUpperCase(), CARD.width / 2, 885);
+
+    // Top scores, two columns
+    const rows = scoreRows(result, i18n).slice(0, 8);
+    const colWidth = 420;
+    rows.forEach((row, i) => {
+        const x = i % 2 === 0 ? 90 : CARD.width - 90 - colWidth;
+        const y = 960 + Math.floor(i / 2) * 80;
+        ctx.textAlign = 'left';
+        ctx.fillStyle = '#9ca3af';
+        ctx.font = `500 24px ${FONT}`;
+        ctx.fillText(row.label.toUpperCase(), x, y);
+        ctx.textAlign = 'right';
+        ctx.fillStyle = '#fff';
+        ctx.font = `300 30px ${FONT}`;
+        ctx.fillText(`${row.value}%`, x + colWidth, y);
+        drawBar(ctx, x, y + 16, colWidth, row.value, i === 0 ? ACCENT : 'rgba(255, 255, 255, 0.8)');
+    });
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#374151';
+    ctx.font = `500 20px ${FONT}`;
+    ctx.fillText('LOOKSRATE • PRECISION ENGINE', CARD.width / 2, CARD.height - 40);
+
+    return toBlob(canvas, 'image/png');
+}
+
+// --- PDF report ---
+
+// A4 at ~120 dpi; pages are rasterized, so this sets the text sharpness
+const PAGE = { width: 992, height: 1403, margin: 72 };
+
+class ReportWriter {
+    pages: HTMLCanvasElement[] = [];
+    private ctx!: CanvasRenderingContext2D;
+    y = 0;
+
+    constructor() {
+        this.newPage();
+    }
+
+    newPage() {
+        const { canvas, ctx } = newCanvas(PAGE.width, PAGE.height);
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, PAGE.width, PAGE.height);
+        this.pages.push(canvas);
+        this.ctx = ctx;
+        this.y = PAGE.margin;
+    }
+
+    // Starts a new page unless `height` more pixels fit on this one
+    ensure(height: number) {
+        if (this.y + height > PAGE.height - PAGE.margin) this.newPage();
+    }
+
+    get context() {
+        return this.ctx;
+    }
+
+    text(value: string, x: number, opts: { size?: number; weight?: number; color?: string; align?: CanvasTextAlign } = {}) {
+        const { size = 16, weight = 400, color = '#111827', align = 'left' } = opts;
+        this.ctx.font = `${weight} ${size}px ${FONT}`;
+        this.ctx.fillStyle = color;
+        this.ctx.textAlign = align;
+        this.ctx.fillText(value, x, this.y);
+    }
+
+    heading(value: string) {
+        this.ensure(60);
+        this.y += 36;
+        this.text(value, PAGE.margin, { size: 24, weight: 600 });
+        this.y += 14;
+        this.rule('#111827');
+    }
+
+    rule(color = '#e5e7eb') {
+        this.ctx.fillStyle = color;
+        this.ctx.fillRect(PAGE.margin, this.y, PAGE.width - 2 * PAGE.margin, 1);
+    }
+
+    // One table row; columns are [x, align] pairs across the page
+    row(cells: string[], columns: [number, CanvasTextAlign][], opts: { weight?: number; color?: string; size?: number } = {}) {
+        const height = (opts.size ?? 15) + 14;
+        this.ensure(height);
+        this.y += height - 6;
+        cells.forEach((cell, i) => this.text(cell, columns[i][0], { ...opts, align: columns[i][1] }));
+        this.y += 6;
+        this.rule();
+    }
+}
+
+const RIGHT = PAGE.width - PAGE.margin;
+const SCORE_COLUMNS: [number, CanvasTextAlign][] = [[PAGE.margin, 'left'], [RIGHT, 'right']];
+const TERM_COLUMNS: [number, CanvasTextAlign][] = [
+    [PAGE.margin + 16, 'left'],
+    [RIGHT - 420, 'right'],
+    [RIGHT - 270, 'right'],
+    [RIGHT - 170, 'right'],
+    [RIGHT - 80, 'right'],
+    [RIGHT, 'right'],
+];
+
+function writeSummary(report: ReportWriter, photo: HTMLCanvasElement, result: AnyResult, i18n: Translator) {
+    const { t } = i18n;
+    const ctx = report.context;
+    const photoSize = 380;
+    drawCover(ctx, photo, PAGE.margin, PAGE.margin, photoSize, photoSize);
+
+    const x = PAGE.margin + photoSize + 40;
+    report.y = PAGE.margin + 110;
+    report.text(String(result.overall), x, { size: 110, weight: 200 });
+    report.y += 44;
+    report.text(subtitle(result, i18n), x, { size: 18, weight: 500, color: '#0891b2' });
+    if (result.view === 'front') {
+        report.y += 32;
+        report.text(t.exports.scoringProfile(result.scoring_profile), x, { size: 14, color: '#6b7280' });
+        report.y += 22;
+        report.text(normSetLabel(t, result.norm_set), x, { size: 14, color: '#6b7280' });
+        if (result.pose) {
+            const { yaw, pitch, roll } = result.pose;
+            report.y += 22;
+            report.text(t.result.pose(i18n.number(yaw, 1), i18n.number(pitch, 1), i18n.number(roll, 1)), x, { size: 14, color: '#6b7280' });
+        }
+    }
+    report.y += 22;
+    report.text(i18n.dateTime(Date.now()), x, { size: 14, color: '#6b7280' });
+
+    report.y = PAGE.margin + photoSize;
+    report.heading(t.exports.scoresTitle);
+    scoreRows(result, i18n).forEach(row => report.row([row.label, `${row.value}%`], SCORE_COLUMNS));
+
+    if (result.warnings.length > 0) {
+        report.heading(t.exports.warningsTitle);
+        // Results saved before warning codes carry English text: shown as is
+        result.warnings.forEach(w => report.row([t.warnings[w] ?? w], SCORE_COLUMNS, { color: '#b91c1c' }));
+    }
+}
+
+// Per-score tables of measured inputs, ideals and contributions to overall
+function writeExplanations(report: ReportWriter, result: AnalysisResult, i18n: Translator) {
+    const { t } = i18n;
+    report.newPage();
+    report.y -= 36;
+    report.heading(t.exports.explanationsTitle);
+
+    (Object.keys(result.breakdown.scores) as ScoreKey[]).forEach(key => {
+        const score = result.scores[key];
+        const explanation = result.breakdown.scores[key];
+        if (score === null || explanation.terms.length === 0) return;
+
+        // Keep the score title with at least its header and first term
+        report.ensure(120);
+        report.y += 16;
+        report.row(
+            [
+                t.scores[key],
+                explanation.weight > 0
+                    ? t.exports.scoreLine(score, i18n.signed(explanation.contribution, 2), Math.round(explanation.weight * 100))
+                    : `${score}%`,
+            ],
+            SCORE_COLUMNS,
+            { weight: 600, size: 17 }
+        );
+        report.row([t.result.metric, t.result.value, t.result.ideal, 'Δ', t.result.score, t.result.weight], TERM_COLUMNS, { size: 12, color: '#6b7280' });
+        explanation.terms.forEach(term =>
+            report.row(
+                [
+                    t.terms[term.key] ?? term.key.replace(/_/g, ' '),
+                    formatValue(i18n, term.value),
+                    formatIdeal(i18n, term.ideal),
+                    formatValue(i18n, term.deviation),
+                    String(Math.round(term.score)),
+                    `${Math.round(term.weight * 100)}%`,
+                ],
+                TERM_COLUMNS,
+                { size: 14 }
+            )
+        );
+    });
+
+    report.heading(t.result.total);
+    result.breakdown.overall.forEach(step =>
+        report.row([t.scores[step.key], `${step.score} × ${Math.round(step.weight * 100)}% = ${i18n.signed(step.contribution, 2)}`], SCORE_COLUMNS)
+    );
+    report.row([t.result.rounding, i18n.signed(result.breakdown.rounding, 2)], SCORE_COLUMNS, { color: '#6b7280' });
+    report.row([t.scores.overall, String(result.overall)], SCORE_COLUMNS, { weight: 600 });
+}
+
+// Every raw measurement, flattened to "group.name" rows
+function writeMeasurements(report: ReportWriter, result: AnyResult, i18n: Translator) {
+    report.newPage();
+    report.y -= 36;
+    report.heading(i18n.t.exports.measurementsTitle);
+
+    const source: object = result.view === 'front'
+        ? result.measurements
+        : {
+            gonial_angle: result.gonial_angle,
+            nasofrontal_angle: result.nasofrontal_angle,
+            nasolabial_angle: result.nasolabial_angle,
+            e_line_upper_lip: result.e_line_upper_lip,
+            e_line_lower_lip: result.e_line_lower_lip,
+            chin_projection: result.chin_projection,
+            forehead_slope: result.forehead_slope,
+            profile_thirds: result.profile_thirds,
+        };
+
+    const walk = (value: unknown, path: string) => {
+        if (typeof value === 'number') {
+            report.row([path, formatValue(i18n, value)], SCORE_COLUMNS, { size: 14 });
+        } else if (Array.isArray(value)) {
+            report.row([path, value.map(v => formatValue(i18n, v as number)).join(' / ')], SCORE_COLUMNS, { size: 14 });
+        } else if (value && typeof value === 'object') {
+            Object.entries(value).forEach(([k, v]) => walk(v, path ? `${path}.${k}` : k));
+        }
+    };
+    walk(source, '');
+}
+
+export async function renderPdfReport(imageSrc: string, result: AnyResult, i18n: Translator): Promise<Blob> {
+    const photo = await renderAnnotatedPhoto(imageSrc, result);
+    const report = new ReportWriter();
+
+    writeSummary(report, photo, result, i18n);
+    if (result.view === 'front') writeExplanations(report, result, i18n);
+    writeMeasurements(report, result, i18n);
+
+    const pages: PdfPage[] = await Promise.all(
+        report.pages.map(async canvas => ({
+            jpeg: new Uint8Array(await (await toBlob(canvas, 'image/jpeg', 0.9)).arrayBuffer()),
+            width: canvas.width,
+            height: canvas.height,
+        }))
+    );
+    return buildPdf(pages);
+}
+
+// --- JSON ---
+
+export function exportJSON(result: AnyResult): Blob {
+    const payload: AnalysisExport = {
+        schema: EXPORT_SCHEMA,
+        schema_version: EXPORT_SCHEMA_VERSION,
+        exported_at: new Date().toISOString(),
+        result,
+    };
+    return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    // Give the download a moment to start before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,95 @@
+import { dist, Point } from './geometry';
+import { QualityVerdict } from './qualityGate';
+
+/**
+ * Facial expression from the mesh alone. Smiles, open mouths, raised brows and
+ * squints move the eye, lip and lower-third points the metrics read, so only
+ * neutral photos are scored and compared like-for-like.
+ */
+
+export type ExpressionLabel = 'neutral' | 'smile' | 'mouth_open' | 'brows_raised' | 'squint' | 'eyes_closed';
+
+export interface ExpressionFeatures {
+    mouth_open: number; // Inner lip gap / mouth width
+    lip_corner_lift: number; // Lip corners above the lip line / mouth width (positive = up)
+    brow_raise: number; // Brow to upper eyelid / eye width (mean of both sides)
+    ear_left: number; // Eye aspect ratio, as in `measureFace`
+    ear_right: number;
+}
+
+export interface ExpressionReport {
+    label: ExpressionLabel; // Most severe finding, 'neutral' when none
+    detected: ExpressionLabel[]; // Every non-neutral finding, most severe first
+    verdict: QualityVerdict;
+    features: ExpressionFeatures;
+}
+
+// Eye aspect ratio (smaller eye) below which the eye counts as closed / squinting
+const EYES_CLOSED_EAR = 0.12;
+const SQUINT_EAR = 0.2;
+// Inner lip gap / mouth width: warn, block
+const MOUTH_OPEN = [0.12, 0.3];
+// Lip corner lift / mouth width: warn, block
+const SMILE = [0.08, 0.18];
+// Brow to eyelid / eye width: warn only, brows don't move the scored points much
+const BROWS_RAISED = 0.95;
+
+export function measureExpression(keypoints: Point[]): ExpressionFeatures {
+    const p = (i: number) => keypoints[i];
+
+    // Face vertical: forehead -> chin, so a tilted head doesn't read as a smile
+    const top = p(10), chin = p(152);
+    const len = Math.max(1e-6, dist(top, chin));
+    const down = { x: (chin.x - top.x) / len, y: (chin.y - top.y) / len };
+    const height = (q: Point) => (q.x - top.x) * down.x + (q.y - top.y) * down.y;
+
+    const mouthWidth = Math.max(1e-6, dist(p(61), p(291)));
+    const lipLine = (height(p(13)) + height(p(14))) / 2;
+    const corners = (height(p(61)) + height(p(291))) / 2;
+
+    const eyeWidthR = Math.max(1e-6, dist(p(33), p(133)));
+    const eyeWidthL = Math.max(1e-6, dist(p(263), p(362)));
+    const browRaise = (dist(p(105), p(159)) / eyeWidthR + dist(p(334), p(386)) / eyeWidthL) / 2;
+
+    return {
+        mouth_open: dist(p(13), p(14)) / mouthWidth,
+        lip_corner_lift: (lipLine - corners) / mouthWidth,
+        brow_raise: browRaise,
+        ear_left: dist(p(386), p(374)) / eyeWidthL,
+        ear_right: dist(p(159), p(145)) / eyeWidthR,
+    };
+}
+
+export function classifyExpression(keypoints: Point[]): ExpressionReport {
+    const features = measureExpression(keypoints);
+    const ear = Math.min(features.ear_left, features.ear_right);
+
+    // Most severe first
+    const detected: ExpressionLabel[] = [];
+    let block = false;
+    if (ear < EYES_CLOSED_EAR) {
+        detected.push('eyes_closed');
+        block = true;
+    }
+    if (features.mouth_open > MOUTH_OPEN[0]) {
+        detected.push('mouth_open');
+        block ||= features.mouth_open > MOUTH_OPEN[1];
+    }
+    if (features.lip_corner_lift > SMILE[0]) {
+        detected.push('smile');
+        block ||= features.lip_corner_lift > SMILE[1];
+    }
+    if (ear >= EYES_CLOSED_EAR && ear < SQUINT_EAR) detected.push('squint');
+    if (features.brow_raise > BROWS_RAISED) detected.push('brows_raised');
+
+    return {
+        label: detected[0] ?? 'neutral',
+        detected,
+        verdict: block ? 'block' : detected.length > 0 ? 'warn' : 'pass',
+        features,
+    };
+}
+
+// Results are comparable when their expressions match; older results without one are assumed neutral
+export const sameExpression = (a?: ExpressionReport, b?: ExpressionReport) =>
+    (a?.label ?? 'neutral') === (b?.label ?? 'neutral');
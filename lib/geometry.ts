@@ -0,0 +1,51 @@
+/**
+ * Shared geometry helpers for landmark-based measurements
+ */
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// Axis-aligned face bounding box in source pixels
+export interface FaceBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const boxCenter = (b: FaceBox): Point => ({ x: b.x + b.width / 2, y: b.y + b.height / 2 });
+
+export const clamp = (x: number, a: number, b: number) => Math.max(a, Math.min(x, b));
+export const norm = (x: number, min: number, max: number) => clamp(((x - min) / (max - min)) * 100, 0, 100);
+export const dist = (p1: Point, p2: Point) =>
+    Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
+
+// Angle at p2 formed by p1 -> p2 -> p3 (degrees)
+export function calculateAngle(p1: Point, p2: Point, p3: Point): number {
+    const v1 = { x: p1.x - p2.x, y: p1.y - p2.y };
+    const v2 = { x: p3.x - p2.x, y: p3.y - p2.y };
+    
+    const dot = v1.x * v2.x + v1.y * v2.y;
+    const mag1 = Math.sqrt(v1.x * v1.x + v1.y * v1.y);
+    const mag2 = Math.sqrt(v2.x * v2.x + v2.y * v2.y);
+    
+    const angleRad = Math.acos(dot / (mag1 * mag2));
+    return (angleRad * 180) / Math.PI;
+}
+
+// Signed perpendicular distance of p from the line a -> b.
+// Positive when p lies to the left of the direction a -> b (screen coordinates).
+export function signedDistanceToLine(p: Point, a: Point, b: Point): number {
+    const len = dist(a, b);
+    if (len === 0) return 0;
+    return ((b.x - a.x) * (a.y - p.y) - (b.y - a.y) * (a.x - p.x)) / len;
+}
+
+// Scores how close x is to the [min, max] ideal range (100 inside, 0 at `falloff` outside)
+export function rangeScore(x: number, min: number, max: number, falloff: number): number {
+    if (x >= min && x <= max) return 100;
+    const deviation = x < min ? min - x : x - max;
+    return clamp((1 - deviation / falloff) * 100, 0, 100);
+}
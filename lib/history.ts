@@ -0,0 +1,120 @@
+import { AnalysisResult } from './analyzeFace';
+import { ProfileAnalysisResult } from './analyzeProfile';
+import { loadImage } from './detector';
+
+/**
+ * Local analysis history: every result is stored in IndexedDB together with a
+ * thumbnail, so progress can be tracked over months without an account.
+ */
+
+export interface HistoryEntry {
+    id: number;
+    created_at: number; // ms since epoch
+    thumbnail: string; // Small JPEG data URL
+    scoring_profile: string | null; // "id@version", null for side profiles
+    result: AnalysisResult | ProfileAnalysisResult; // Includes landmarks
+}
+
+export type HistoryMetricKey =
+    | 'front_overall'
+    | 'profile_overall'
+    | 'symmetry'
+    | 'golden_ratio'
+    | 'harmony'
+    | 'skin_quality'
+    | 'jawline'
+    | 'cheekbones'
+    | 'dimorphism'
+    | 'jaw_score'
+    | 'chin_score';
+
+export interface HistoryMetric {
+    key: HistoryMetricKey;
+    unit: '%' | '/10';
+    get: (result: AnalysisResult | ProfileAnalysisResult) => number | null;
+}
+
+const DB_NAME = 'looksrate';
+const DB_VERSION = 1;
+const STORE = 'analyses';
+const THUMBNAIL_SIZE = 160;
+
+const front = (read: (r: AnalysisResult) => number | null) =>
+    (r: AnalysisResult | ProfileAnalysisResult) => (r.view === 'front' ? read(r) : null);
+const side = (read: (r: ProfileAnalysisResult) => number) =>
+    (r: AnalysisResult | ProfileAnalysisResult) => (r.view === 'profile' ? read(r) : null);
+
+// Metrics that can be charted over time; each reads one view, since front and side come from different models
+export const HISTORY_METRICS: HistoryMetric[] = [
+    { key: 'front_overall', unit: '/10', get: front(r => r.overall) },
+    { key: 'profile_overall', unit: '/10', get: side(r => r.overall) },
+    { key: 'symmetry', unit: '%', get: front(r => r.scores.symmetry) },
+    { key: 'golden_ratio', unit: '%', get: front(r => r.scores.golden_ratio) },
+    { key: 'harmony', unit: '%', get: front(r => r.scores.harmony) },
+    { key: 'skin_quality', unit: '%', get: front(r => r.scores.skin_quality) },
+    { key: 'jawline', unit: '%', get: front(r => r.scores.jawline) },
+    { key: 'cheekbones', unit: '%', get: front(r => r.scores.cheekbones) },
+    { key: 'dimorphism', unit: '%', get: front(r => r.scores.dimorphism) },
+    { key: 'jaw_score', unit: '%', get: side(r => r.jaw_score) },
+    { key: 'chin_score', unit: '%', get: side(r => r.chin_score) },
+];
+
+function openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+            store.createIndex('created_at', 'created_at');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// Runs one request in its own transaction
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = fn(db.transaction(STORE, mode).objectStore(STORE));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+async function makeThumbnail(imageSrc: string): Promise<string> {
+    const img = await loadImage(imageSrc);
+    const scale = THUMBNAIL_SIZE / Math.max(img.width, img.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+export async function saveToHistory(result: AnalysisResult | ProfileAnalysisResult, imageSrc: string): Promise<HistoryEntry> {
+    const entry: Omit<HistoryEntry, 'id'> = {
+        created_at: Date.now(),
+        thumbnail: await makeThumbnail(imageSrc),
+        scoring_profile: result.view === 'front' ? result.scoring_profile : null,
+        result,
+    };
+    const id = await withStore('readwrite', store => store.add(entry));
+    return { ...entry, id: id as number };
+}
+
+// Oldest first
+export function listHistory(): Promise<HistoryEntry[]> {
+    return withStore<HistoryEntry[]>('readonly', store => store.index('created_at').getAll());
+}
+
+export function deleteFromHistory(id: number): Promise<undefined> {
+    return withStore('readwrite', store => store.delete(id));
+}
+
+export function clearHistory(): Promise<undefined> {
+    return withStore('readwrite', store => store.clear());
+}
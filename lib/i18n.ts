@@ -0,0 +1,98 @@
+import { ru } from './locales/ru';
+import { en } from './locales/en';
+import { AnalysisError, ExpressionError, ImportError, MultipleFacesError, QualityGateError } from './errors';
+import { getNormSet } from './norms';
+import { ScoringProfile } from './scoring';
+
+/**
+ * Message catalogs and locale-aware formatting. Lib code returns codes (error
+ * codes, warning codes, metric keys); they are turned into text here, at render.
+ */
+
+export type Locale = 'ru' | 'en';
+
+export type Messages = typeof ru;
+
+export const MESSAGES: Record<Locale, Messages> = { ru, en };
+
+export const LOCALES = Object.keys(MESSAGES) as Locale[];
+
+export const DEFAULT_LOCALE: Locale = 'ru';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// First supported language out of the browser's preferences
+export function detectLocale(languages: readonly string[]): Locale {
+    for (const language of languages) {
+        const base = language.toLowerCase().split('-')[0];
+        if (isLocale(base)) return base;
+    }
+    return DEFAULT_LOCALE;
+}
+
+export interface Translator {
+    locale: Locale;
+    t: Messages;
+    number: (value: number, digits?: number) => string; // Fixed fraction digits, locale separators
+    signed: (value: number, digits?: number) => string; // Same, with an explicit + for gains
+    date: (ms: number) => string;
+    dateTime: (ms: number) => string;
+}
+
+export function createTranslator(locale: Locale): Translator {
+    const formats = new Map<string, Intl.NumberFormat>();
+    const format = (digits: number, sign: boolean) => {
+        const key = `${digits}${sign ? '+' : ''}`;
+        let nf = formats.get(key);
+        if (!nf) {
+            nf = new Intl.NumberFormat(locale, {
+                minimumFractionDigits: digits,
+                maximumFractionDigits: digits,
+                signDisplay: sign ? 'exceptZero' : 'auto',
+            });
+            formats.set(key, nf);
+        }
+        return nf;
+    };
+
+    return {
+        locale,
+        t: MESSAGES[locale],
+        number: (value, digits = 0) => format(digits, false).format(value),
+        signed: (value, digits = 0) => format(digits, true).format(value),
+        date: ms => new Date(ms).toLocaleDateString(locale, { day: 'numeric', month: 'short', year: '2-digit' }),
+        dateTime: ms => new Date(ms).toLocaleString(locale),
+    };
+}
+
+// Display name of a norm set, resolved like getNormSet (unknown ids fall back to neutral);
+// sets the catalog doesn't name yet show their built-in label
+export const normSetLabel = (t: Messages, id?: string | null) => {
+    const set = getNormSet(id);
+    return t.normSets[set.id] ?? set.label;
+};
+
+// Display name of a scoring profile, same fallback as norm sets
+export const scoringProfileLabel = (t: Messages, profile: ScoringProfile) => t.scoringProfiles[profile.id] ?? profile.label;
+
+// What went wrong and what to do about it, in the UI language
+export function describeError(t: Messages, error: AnalysisError): { message: string; remediation: string } {
+    const { errors } = t;
+    const remediation = (error.rule && errors.rules[error.rule]) || errors.remediation[error.code];
+
+    if (error instanceof MultipleFacesError) {
+        return { message: errors.multipleFaces(error.faces.length), remediation };
+    }
+    if (error instanceof QualityGateError) {
+        const blocking = error.report.checks.find(c => c.status === 'block');
+        return blocking ? t.quality.checks[blocking.id] : { message: errors.messages.LOW_QUALITY, remediation };
+    }
+    if (error instanceof ExpressionError) {
+        return { message: errors.expression[error.report.label], remediation };
+    }
+    if (error instanceof ImportError) {
+        return { message: errors.import[error.reason], remediation };
+    }
+    const message = (error.rule && errors.ruleMessages[error.rule]) || errors.messages[error.code];
+    return { message, remediation };
+}
@@ -0,0 +1,72 @@
+import { scoreMeasurements, AnalysisResult } from './analyzeFace';
+import { scoreProfileLandmarks, ProfileAnalysisResult } from './analyzeProfile';
+import { AnalysisExport, EXPORT_SCHEMA, EXPORT_SCHEMA_VERSION } from './export';
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from './scoring';
+import { DEFAULT_NORM_SET, NormSet } from './norms';
+import { ImportError } from './errors';
+import { WarningCode } from './quality';
+
+/**
+ * Loads results exported by lib/export.ts and re-runs only the scoring stage,
+ * so weight changes can be checked on old photos without the detector.
+ */
+
+type AnyResult = AnalysisResult | ProfileAnalysisResult;
+
+export interface RescoreOptions {
+    scoringProfile?: ScoringProfile; // Front only: profiles have no scoring model yet
+    norms?: NormSet;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Enough of a result to re-score: front measurements, or a profile (checked for landmarks when re-scored)
+const isExportedResult = (result: unknown): result is AnyResult =>
+    isObject(result) && ((result.view === 'front' && isObject(result.measurements)) || result.view === 'profile');
+
+export function parseAnalysisExport(text: string): AnalysisExport {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new ImportError('format', e);
+    }
+
+    if (!isObject(data) || data.schema !== EXPORT_SCHEMA || typeof data.schema_version !== 'number' || typeof data.exported_at !== 'string') {
+        throw new ImportError('format');
+    }
+    // Older versions stay readable; newer ones may carry fields we'd silently drop
+    if (data.schema_version > EXPORT_SCHEMA_VERSION) throw new ImportError('version');
+
+    const { result } = data;
+    if (!isExportedResult(result)) throw new ImportError('format');
+
+    return { schema: EXPORT_SCHEMA, schema_version: data.schema_version, exported_at: data.exported_at, result };
+}
+
+// Keeps pipeline warnings (e.g. pose correction) that scoring alone can't reproduce
+const mergeWarnings = (rescored: WarningCode[], original: WarningCode[]) =>
+    [...rescored, ...original.filter(w => !rescored.includes(w))];
+
+export function rescoreResult(
+    result: AnyResult,
+    { scoringProfile = DEFAULT_SCORING_PROFILE, norms = DEFAULT_NORM_SET }: RescoreOptions = {}
+): AnyResult {
+    if (result.view === 'front') {
+        const rescored = scoreMeasurements(result.measurements, result.landmarks, { scoringProfile, norms });
+        return {
+            ...rescored,
+            pose: result.pose,
+            regularization: result.regularization,
+            quality_gate: result.quality_gate,
+            expression: result.expression,
+            manual_landmarks: result.manual_landmarks,
+            warnings: mergeWarnings(rescored.warnings, result.warnings),
+        };
+    }
+
+    // Profile measurements are stored rounded: score from the landmarks instead
+    if (!result.landmarks) throw new ImportError('landmarks');
+    const rescored = scoreProfileLandmarks(result.landmarks, { norms });
+    return { ...rescored, manual_landmarks: result.manual_landmarks, warnings: mergeWarnings(rescored.warnings, result.warnings) };
+}
@@ -0,0 +1,81 @@
+import { measureLandmarks, scoreMeasurements, AnalysisResult } from './analyzeFace';
+import { scoreProfileLandmarks, ProfileAnalysisResult } from './analyzeProfile';
+import { getScoringProfileForTag } from './scoring';
+import { getNormSet } from './norms';
+import { Point } from './geometry';
+import { RegularizationReport } from './regularization';
+import { classifyExpression } from './expression';
+
+/**
+ * Manual landmark correction: the points the metrics read can be moved by hand
+ * and the result is re-measured and re-scored from the edited mesh.
+ */
+
+type AnyResult = AnalysisResult | ProfileAnalysisResult;
+
+// Every point `measureFace` reads, as mesh indices (names: editor.landmarks.front in the catalogs)
+export const FRONT_EDITABLE = [
+    10, 9, 103, 332, // Forehead
+    33, 133, 159, 145, 362, 263, 386, 374, // Eyes
+    468, 473, // Pupils
+    168, 102, 331, // Nose
+    234, 454, 123, 352, // Face width, cheeks
+    0, 61, 291, 14, // Mouth
+    172, 397, 152, // Jaw, chin
+] as const;
+
+// Midline and visible-side points the profile pipeline reads (editor.landmarks.profile)
+export const PROFILE_EDITABLE = [10, 9, 168, 1, 2, 0, 13, 17, 175, 152, 234, 172, 454, 397] as const;
+
+export type FrontLandmark = (typeof FRONT_EDITABLE)[number];
+export type ProfileLandmark = (typeof PROFILE_EDITABLE)[number];
+
+export const editableLandmarks = (result: AnyResult): number[] =>
+    (result.view === 'profile' ? PROFILE_EDITABLE : FRONT_EDITABLE).filter(index => index < (result.landmarks?.length ?? 0));
+
+// Landmark index -> new position in source pixels
+export type LandmarkEdits = Record<number, Point>;
+
+export function applyEdits<T extends Point>(landmarks: T[], edits: LandmarkEdits): T[] {
+    return landmarks.map((p, i) => (edits[i] ? { ...p, x: edits[i].x, y: edits[i].y } : p));
+}
+
+/**
+ * Re-scores `base` with the edited points under its own scoring profile and norms.
+ * Image-derived inputs (photo quality, skin, head pose) are kept from `base`.
+ */
+export function rescoreWithEdits(base: AnyResult, edits: LandmarkEdits): AnyResult {
+    if (!base.landmarks) return base;
+
+    const landmarks = applyEdits(base.landmarks, edits);
+    const edited = Object.keys(edits).map(Number);
+    const manual_landmarks = Array.from(new Set([...(base.manual_landmarks ?? []), ...edited])).sort((a, b) => a - b);
+    const norms = getNormSet(base.norm_set);
+
+    if (base.view === 'profile') {
+        // May throw AnatomyError when the points no longer form a profile
+        const rescored = scoreProfileLandmarks(landmarks, { norms });
+        return { ...rescored, warnings: base.warnings, manual_landmarks };
+    }
+
+    const { measurements, warnings } = measureLandmarks(landmarks, base.measurements.quality, base.pose, base.measurements.skin);
+    const rescored = scoreMeasurements(measurements, landmarks, { scoringProfile: getScoringProfileForTag(base.scoring_profile), norms });
+    return {
+        ...rescored,
+        pose: base.pose,
+        regularization: base.regularization && withoutEdited(base.regularization, edits),
+        quality_gate: base.quality_gate,
+        // Moved eye or lip points can change the expression
+        expression: base.expression && classifyExpression(landmarks),
+        warnings: [...rescored.warnings, ...warnings],
+        manual_landmarks,
+    };
+}
+
+// A hand-placed point no longer carries its automatic correction
+const withoutEdited = (report: RegularizationReport, edits: LandmarkEdits): RegularizationReport => ({
+    ...report,
+    corrections: report.corrections
+        .map(c => ({ ...c, moves: c.moves.filter(m => !edits[m.index]) }))
+        .filter(c => c.moves.length > 0),
+});
@@ -0,0 +1,59 @@
+import { estimateHeadPose, HeadPose, Point3 } from './pose';
+import { measureFace } from './measurements';
+import { getQualityMetrics, getQualityWarnings, QualityMetrics } from './quality';
+import { scoreFace } from './scoring';
+
+/**
+ * Lightweight per-frame readouts for the live camera mode: no alignment or
+ * regularization, just enough to guide the user towards a good capture.
+ */
+
+export interface LiveReadout {
+    symmetry: number; // 0-100
+    canthal_tilt: number; // Degrees
+    thirds: [number, number, number]; // Share of face height, percent
+    pose: HeadPose;
+    frontal: boolean;
+    quality_ok: boolean;
+    ready: boolean; // Frontal and good quality: safe to auto-capture
+}
+
+// Frontal tolerances for auto-capture
+const MAX_ROLL = 5;
+const MAX_YAW = 5;
+const MAX_PITCH = 8;
+// Quality is sampled on a downscaled frame to keep the loop real-time
+const QUALITY_SAMPLE_WIDTH = 320;
+
+export function sampleFrameQuality(video: HTMLVideoElement): QualityMetrics | null {
+    if (!video.videoWidth) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = QUALITY_SAMPLE_WIDTH;
+    canvas.height = Math.round((video.videoHeight / video.videoWidth) * QUALITY_SAMPLE_WIDTH);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return getQualityMetrics(canvas);
+}
+
+export function readFrame(keypoints: Point3[], quality: QualityMetrics): LiveReadout {
+    const m = measureFace(keypoints, quality);
+    const { scores } = scoreFace(m);
+
+    const pose = estimateHeadPose(keypoints);
+    const frontal = Math.abs(pose.roll) < MAX_ROLL && Math.abs(pose.yaw) < MAX_YAW && Math.abs(pose.pitch) < MAX_PITCH;
+    const quality_ok = getQualityWarnings(quality).length === 0;
+
+    const [upper, mid, lower] = m.distances.thirds;
+    const total = upper + mid + lower || 1;
+
+    return {
+        symmetry: scores.symmetry,
+        canthal_tilt: m.angles.canthal_tilt,
+        thirds: [upper, mid, lower].map(t => Math.round((t / total) * 100)) as LiveReadout['thirds'],
+        pose,
+        frontal,
+        quality_ok,
+        ready: frontal && quality_ok,
+    };
+}
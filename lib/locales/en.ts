@@ -0,0 +1,593 @@
+import type { Messages } from '../i18n';
+
+/**
+ * English catalog
+ */
+
+export const en: Messages = {
+    language: { name: 'English', label: 'Language' },
+
+    app: {
+        tagline: 'Precision AI Aesthetics Engine',
+    },
+
+    tabs: {
+        front: 'Front',
+        side: 'Side',
+        history: 'History',
+        compare: 'Compare',
+        import: 'Import',
+        glossary: 'Glossary',
+    },
+
+    stages: {
+        model: 'Loading model',
+        detection: 'Detecting face',
+        refinement: 'Refining landmarks',
+        scoring: 'Scoring',
+    },
+
+    analyze: {
+        photoProgress: (index, total, stage) => `Photo ${index}/${total} • ${stage}`,
+        norms: 'Norms',
+        strict: 'Strict',
+        strictHint: 'Skip landmark regularization',
+        preview: 'Preview',
+        uploadPhoto: 'Upload Photo',
+        or: 'or',
+        useCamera: 'Use Camera',
+        photoSeries: (min, max) => `Photo Series (${min}–${max})`,
+        captureSeries: 'Capture series',
+        cancel: 'Cancel',
+        clear: 'Clear',
+        processing: 'Processing...',
+        analyze: 'Analyze Face',
+        showCorrections: 'Show Corrections',
+        editPoints: 'Edit Points',
+        analyzeAllFaces: count => `Analyze All ${count} Faces`,
+        analyzeAnyway: 'Analyze Anyway',
+        awaitingFront: 'Awaiting Input',
+        awaitingSide: 'Side Profile',
+        frontHint: 'Upload a high-quality front facing photo. AI will scan 478+ facial landmarks.',
+        sideHint: 'Upload a strict side profile photo. AI will measure jaw, nose, lip and chin angles.',
+    },
+
+    scores: {
+        overall: 'Overall',
+        symmetry: 'Symmetry',
+        golden_ratio: 'Golden Ratio',
+        proportions: 'Proportions',
+        harmony: 'Harmony',
+        skin_quality: 'Skin Quality',
+        jawline: 'Jawline',
+        cheekbones: 'Cheekbones',
+        facial_thirds: 'Facial Thirds',
+        facial_fifths: 'Facial Fifths',
+        eye_score: 'Eyes',
+        nose_score: 'Nose',
+        dimorphism: 'Dimorphism',
+    },
+
+    profileScores: {
+        jaw_score: 'Jaw Angle',
+        chin_score: 'Chin',
+        nose_score: 'Nose',
+        lip_score: 'Lips',
+        forehead_score: 'Forehead',
+        thirds_score: 'Facial Thirds',
+    },
+
+    measurements: {
+        canthal_tilt: 'Canthal Tilt',
+        midface_ratio: 'Midface Ratio',
+        jaw_angle: 'Jaw Angle',
+        eye_aspect_ratio: 'Eye Openness',
+        gonial_angle: 'Gonial Angle',
+        nasofrontal_angle: 'Nasofrontal',
+        nasolabial_angle: 'Nasolabial',
+        forehead_slope: 'Forehead Slope',
+        e_line_upper_lip: 'E-line Upper Lip',
+        e_line_lower_lip: 'E-line Lower Lip',
+        chin_projection: 'Chin Projection',
+        profile_thirds: 'Thirds',
+    },
+
+    terms: {
+        jaw_ratio: 'jaw width',
+        chin_ratio: 'chin width',
+        cheek_ratio: 'cheek width',
+        skin_texture: 'skin texture',
+        skin_tone: 'tone unevenness',
+        skin_redness: 'redness',
+        skin_shine: 'shine',
+        sharpness: 'photo sharpness',
+        contrast: 'photo contrast',
+        brightness: 'photo brightness',
+        eye_symmetry: 'eye symmetry',
+        cheek_symmetry: 'cheek symmetry',
+        jaw_symmetry: 'jaw symmetry',
+        lip_symmetry: 'lip symmetry',
+        face_ratio: 'face height / width',
+        mouth_nose_ratio: 'mouth / nose',
+        thirds_deviation: 'thirds deviation',
+        fifths_deviation: 'fifths deviation',
+        facial_thirds: 'facial thirds',
+        facial_fifths: 'facial fifths',
+        canthal_tilt: 'canthal tilt',
+        eye_aspect_ratio: 'eye openness',
+        eye_score: 'eyes',
+        nose_score: 'nose',
+        jawline: 'jawline',
+        cheekbones: 'cheekbones',
+    },
+
+    faceShapes: {
+        Oval: 'Oval',
+        Heart: 'Heart',
+        Rectangular: 'Rectangular',
+        Square: 'Square',
+        Round: 'Round',
+    },
+
+    normSets: {
+        neutral: 'Neutral',
+        male: 'Male',
+        female: 'Female',
+        'male-east-asian': 'Male • East Asian',
+        'female-east-asian': 'Female • East Asian',
+    },
+
+    scoringProfiles: {
+        classic: 'Classic',
+        structure: 'Structure',
+    },
+
+    expressions: {
+        neutral: 'Neutral',
+        smile: 'Smile',
+        mouth_open: 'Mouth open',
+        brows_raised: 'Brows raised',
+        squint: 'Squint',
+        eyes_closed: 'Eyes closed',
+    },
+
+    warnings: {
+        lighting_dark: 'Lighting too dark',
+        lighting_bright: 'Lighting too bright',
+        image_blurry: 'Image blurry',
+        pose_corrected: 'Head slightly turned: symmetry corrected',
+    },
+
+    quality: {
+        title: 'Photo Quality',
+        checks: {
+            face_size: {
+                message: 'The face is too small in the frame',
+                remediation: 'Move closer or shoot at a higher resolution: the face should fill at least a third of the frame',
+            },
+            exposure: {
+                message: 'The face is too dark or overexposed',
+                remediation: 'Face a window or another soft light source, without flash and without a bright background behind you',
+            },
+            clipping: {
+                message: 'Parts of the face are crushed to black or blown out',
+                remediation: 'Take direct light off the face and turn off contrast-boosting filters',
+            },
+            side_lighting: {
+                message: 'Light comes from the side: the two halves of the face are lit differently',
+                remediation: 'Turn to face the light so both cheeks are evenly lit',
+            },
+            blur: {
+                message: 'The face is out of focus',
+                remediation: 'Tap the face on screen to focus and hold the camera still',
+            },
+            motion_blur: {
+                message: 'Motion blur',
+                remediation: 'Brace the camera against something or use the timer so it does not move during the shot',
+            },
+            compression: {
+                message: 'Heavy JPEG compression artifacts',
+                remediation: 'Upload the original photo rather than a screenshot or a messenger copy',
+            },
+            glasses: {
+                message: 'The face seems to be wearing glasses',
+                remediation: 'Take the glasses off: the frame hides the eye corners and the nose bridge',
+            },
+            hair_over_brows: {
+                message: 'Hair covers the forehead or brows',
+                remediation: 'Move hair off the forehead so the brows and hairline are visible',
+            },
+            lens_distortion: {
+                message: 'The camera is too close: perspective distorts the proportions',
+                remediation: 'Hold the camera at least at arm’s length, or have someone take the photo from 1-1.5 m',
+            },
+        },
+    },
+
+    errors: {
+        messages: {
+            NO_FACE: 'No face detected',
+            MULTIPLE_FACES: 'Multiple faces detected',
+            INVALID_ANATOMY: 'Face landmarks were detected incorrectly',
+            FACE_ALIGNMENT: 'Face landmarks could not be aligned',
+            HEAD_POSE: 'Head is turned',
+            LOW_QUALITY: 'Photo quality is too low for analysis',
+            NON_NEUTRAL_EXPRESSION: 'Facial expression is not neutral',
+            NOT_A_PROFILE: 'Side profile not recognized',
+            MODEL_LOAD_FAILED: 'The face detection model failed to load',
+            CANVAS_UNAVAILABLE: 'Could not create a canvas for processing',
+            WORKER_FAILED: 'The analysis stopped unexpectedly',
+            SERIES_SIZE: 'Wrong number of photos',
+            SERIES_TOO_FEW_FACES: 'The face was found on too few photos',
+            INVALID_IMPORT: 'The file is not an analysis export',
+            CANCELLED: 'Analysis cancelled',
+            UNKNOWN: 'Something went wrong during analysis',
+        },
+        remediation: {
+            NO_FACE: 'Use a well-lit photo where the whole face is visible',
+            MULTIPLE_FACES: 'Pick a face on the photo or keep only one person in the frame',
+            INVALID_ANATOMY: 'Keep your head straight, with the face uncovered by hands or hair',
+            FACE_ALIGNMENT: 'Take a front photo at eye level without tilting your head',
+            HEAD_POSE: 'Look straight into the camera without turning or tilting your head',
+            LOW_QUALITY: 'Retake the photo in good light, without glasses, with the camera at arm’s length',
+            NON_NEUTRAL_EXPRESSION: 'Take the photo with a neutral expression: mouth closed, lips relaxed, eyes open',
+            NOT_A_PROFILE: 'Take the photo strictly from the side so the nose and chin are visible',
+            MODEL_LOAD_FAILED: 'Check your internet connection and reload the page',
+            CANVAS_UNAVAILABLE: 'This browser cannot process images. Try another browser',
+            WORKER_FAILED: 'Reload the page and try again',
+            SERIES_SIZE: 'Upload 3 to 10 photos of the same face',
+            SERIES_TOO_FEW_FACES: 'Add sharper shots where the face is clearly visible',
+            INVALID_IMPORT: 'Choose a JSON file exported from LooksRate',
+            CANCELLED: 'Start the analysis again when you are ready',
+            UNKNOWN: 'Try another photo',
+        },
+        ruleMessages: {
+            head_yaw: 'Head is turned to the side',
+            head_pitch: 'Head is tilted',
+        },
+        rules: {
+            eyes_below_nose: 'The eyes were found below the nose: hold the camera at eye level and do not tip your head back',
+            nose_below_mouth: 'The nose and mouth were detected incorrectly: remove hands, masks or hair from the face',
+            mouth_below_chin: 'The chin was not found: the whole face must be visible, chin included',
+            horizontal_misalignment: 'The eyes and nose are not lined up: turn your head straight to the camera',
+            head_yaw: 'The head is turned to the side: turn it straight to the camera',
+            head_pitch: 'The head is tilted up or down: keep your chin level',
+            profile_vertical_order: 'The profile was detected incorrectly: keep your head upright',
+            profile_nose_not_anterior: 'The nose must be the most forward point: stand strictly side-on to the camera',
+            profile_too_wide: 'Both ears are visible: turn strictly side-on to the camera',
+        },
+        multipleFaces: count => `Multiple faces detected (${count})`,
+        expression: {
+            neutral: 'Facial expression is not neutral',
+            eyes_closed: 'Eyes are closed',
+            mouth_open: 'Mouth is open',
+            smile: 'Smiling',
+            squint: 'Eyes are squinting',
+            brows_raised: 'Brows are raised',
+        },
+        import: {
+            format: 'The file is not an analysis export',
+            version: 'This export version is not supported',
+            landmarks: 'The export has no landmarks to re-score from',
+        },
+    },
+
+    result: {
+        profile: 'Profile',
+        potential: 'Potential',
+        deepAnalysis: 'Deep Analysis',
+        profileAnalysis: 'Profile Analysis',
+        breakdown: 'How the Score Is Built',
+        metric: 'Metric',
+        value: 'Value',
+        ideal: 'Ideal',
+        score: 'Score',
+        weight: 'Weight',
+        contribution: weight => `Contribution to overall (${weight}%)`,
+        rounding: 'Rounding',
+        total: 'Total',
+        skinTitle: 'Skin by Region',
+        correctionsTitle: 'Landmark Corrections',
+        strictNoCorrections: 'Strict: landmarks not corrected',
+        correctionShift: (points, shift) => `${points} pts • up to ${shift}% IPD`,
+        manualPoints: count => `Landmarks edited by hand: ${count}`,
+        seriesPhotos: 'Photos',
+        seriesOutliers: 'Outliers',
+        seriesFailed: 'No face',
+        interval: (confidence, min, max) => `${confidence}% CI ${min}–${max}`,
+        scoringFooter: profile => `Scoring ${profile} • Precision Engine`,
+        profileFooter: 'AI Profile Analysis v1.0 • Precision Engine',
+        pose: (yaw, pitch, roll) => `Pose yaw ${yaw}° • pitch ${pitch}° • roll ${roll}°`,
+        expression: 'Expression',
+        photoStats: (brightness, contrast, sharpness) =>
+            `Photo brightness ${brightness} • contrast ${contrast} • sharpness ${sharpness}`,
+    },
+
+    skin: {
+        overall: 'Whole face',
+        forehead: 'Forehead',
+        cheeks: 'Cheeks',
+        chin: 'Chin',
+        texture: 'Texture',
+        tone: 'Tone',
+        redness: 'Redness',
+        shine: 'Shine',
+    },
+
+    corrections: {
+        eye_zone: 'Eyes moved into zone',
+        eye_separation: 'Eyes moved apart',
+        eye_leveling: 'Eyes leveled',
+        nose_zone: 'Nose tip clamped',
+        mouth_zone: 'Mouth clamped',
+        chin_centering: 'Chin centered',
+    },
+
+    overlay: {
+        title: 'Layers',
+        themes: {
+            tech: 'Tech',
+            contrast: 'Contrast',
+            mono: 'Mono',
+        },
+        layers: {
+            mesh: 'Mesh',
+            thirds: 'Thirds / Fifths',
+            golden: 'Golden Grid',
+            symmetry: 'Symmetry',
+            jaw: 'Jaw Angles',
+            iris: 'Iris / IPD',
+        },
+        values: {
+            points: count => `${count} pts`,
+            px: value => `${value} px`,
+            heightWidth: 'H/W',
+            ipd: 'IPD',
+            symmetry: {
+                eye: 'eye',
+                cheek: 'cheek',
+                jaw: 'jaw',
+                lip: 'lip',
+            },
+        },
+    },
+
+    ranking: {
+        title: 'Face Ranking',
+        face: n => `Face ${n}`,
+    },
+
+    combined: {
+        title: 'Combined Report',
+        front: 'Front',
+        side: 'Side',
+        sources: {
+            front: 'front',
+            profile: 'side',
+            both: 'front + side',
+        },
+        components: {
+            symmetry: 'Symmetry',
+            facial_thirds: 'Facial Thirds',
+            facial_fifths: 'Facial Fifths',
+            golden_ratio: 'Golden Ratio',
+            jaw: 'Jaw',
+            nose: 'Nose',
+            chin: 'Chin',
+            lips: 'Lips',
+            forehead: 'Forehead',
+        },
+        disagreementsTitle: 'Disagreements',
+        disagreements: {
+            jaw_angle: 'Jaw angle',
+            jawline: 'Jawline',
+            facial_thirds: 'Facial thirds',
+            nose: 'Nose',
+        },
+    },
+
+    camera: {
+        accessDenied: 'Could not access camera. Please allow permissions.',
+        loadingModel: 'Loading model...',
+        liveUnavailable: 'Live analysis unavailable',
+        faceNotFound: 'Face not found',
+        lookStraight: 'Look straight at the camera',
+        improveQuality: 'Improve lighting / hold still',
+        holdStill: 'Hold still...',
+        ready: 'Ready',
+        symmetry: 'Symmetry',
+        tilt: 'Tilt',
+        thirds: 'Thirds',
+        yawPitch: 'Yaw/Pitch',
+        quality: 'Quality',
+        good: 'Good',
+        low: 'Low',
+        live: 'Live',
+        auto: 'Auto',
+        autoHint: 'Capture automatically when pose and quality are good',
+        takePhoto: 'Take Photo',
+        takeSeriesPhoto: (n, max) => `Take Photo ${n}/${max}`,
+        done: count => `Done (${count})`,
+    },
+
+    editor: {
+        image: 'Edit landmarks',
+        undo: 'Undo (Ctrl+Z)',
+        redo: 'Redo (Ctrl+Shift+Z)',
+        reset: 'Reset',
+        cancel: 'Cancel',
+        done: 'Done',
+        landmarks: {
+            front: {
+                10: 'Forehead top',
+                9: 'Glabella',
+                103: 'Forehead R',
+                332: 'Forehead L',
+                33: 'Eye R outer',
+                133: 'Eye R inner',
+                159: 'Eye R top',
+                145: 'Eye R bottom',
+                362: 'Eye L inner',
+                263: 'Eye L outer',
+                386: 'Eye L top',
+                374: 'Eye L bottom',
+                468: 'Pupil R',
+                473: 'Pupil L',
+                168: 'Nose bridge',
+                102: 'Nose R',
+                331: 'Nose L',
+                234: 'Face R',
+                454: 'Face L',
+                123: 'Cheek R',
+                352: 'Cheek L',
+                0: 'Upper lip',
+                61: 'Mouth R',
+                291: 'Mouth L',
+                14: 'Lower lip',
+                172: 'Jaw R',
+                397: 'Jaw L',
+                152: 'Chin',
+            },
+            profile: {
+                10: 'Trichion',
+                9: 'Glabella',
+                168: 'Nasion',
+                1: 'Pronasale',
+                2: 'Subnasale',
+                0: 'Upper lip',
+                13: 'Stomion',
+                17: 'Lower lip',
+                175: 'Pogonion',
+                152: 'Menton',
+                234: 'Ear R',
+                172: 'Gonion R',
+                454: 'Ear L',
+                397: 'Gonion L',
+            },
+        },
+    },
+
+    compare: {
+        before: 'Before',
+        after: 'After',
+        compare: 'Compare',
+        processing: 'Processing...',
+        slider: 'Slider',
+        onion: 'Onion skin',
+        significance: 'Significance',
+        levels: {
+            noise: 'within noise',
+            possible: 'possible',
+            significant: 'significant',
+        },
+        expressionMismatch: (before, after) => `Different expressions (${before} / ${after}): the comparison is approximate`,
+    },
+
+    history: {
+        metrics: {
+            front_overall: 'Overall (front)',
+            profile_overall: 'Overall (side)',
+            symmetry: 'Symmetry',
+            golden_ratio: 'Golden Ratio',
+            harmony: 'Harmony',
+            skin_quality: 'Skin Quality',
+            jawline: 'Jawline',
+            cheekbones: 'Cheekbones',
+            dimorphism: 'Dimorphism',
+            jaw_score: 'Jaw Angle (side)',
+            chin_score: 'Chin (side)',
+        },
+        needTwo: 'At least two measurements needed',
+        empty: 'No History Yet',
+        emptyHint: 'Every analysis is saved on this device.',
+        hiddenByExpression: count => `Measurements hidden for a different expression: ${count}`,
+        hiddenByScoring: (count, profile) => `Measurements hidden for a different scoring version (not ${profile}): ${count}`,
+        compareTitle: 'Comparison',
+        selectTwo: 'Select two entries to compare',
+        front: 'Front',
+        side: 'Side',
+        profileScoring: 'profile',
+        remove: 'Delete',
+        removeFailed: 'Could not delete the entry. Try again',
+        scoringMismatch: (older, newer) => `Different scoring versions (${older} / ${newer}): scores are only roughly comparable`,
+        expressionMismatch: (older, newer) =>
+            `Different expressions (${older} / ${newer}): eyes, lips and the lower third are not comparable`,
+    },
+
+    importer: {
+        original: 'Original',
+        originalPhoto: 'Original photo (optional)',
+        loadJson: 'Load JSON',
+        loadAnother: 'Load another JSON',
+        exported: (date, overall) => `Exported ${date} • was ${overall}`,
+        title: 'Re-score',
+        hint: 'Load a JSON export to score its measurements again under the current weights. No detection is run.',
+    },
+
+    exports: {
+        card: 'Card',
+        pdf: 'PDF',
+        json: 'JSON',
+        scoresTitle: 'Scores',
+        warningsTitle: 'Warnings',
+        explanationsTitle: 'How the Scores Were Computed',
+        measurementsTitle: 'Measurements',
+        scoringProfile: profile => `Scoring ${profile}`,
+        scoreLine: (score, contribution, weight) => `${score}%  •  contributes ${contribution} (${weight}%)`,
+    },
+
+    glossary: {
+        title: 'Glossary',
+        intro: 'What each metric measures. Scores run from 0 to 100; overall and potential from 0 to 10.',
+        sections: {
+            scores: 'Front Scores',
+            profile: 'Profile Scores',
+            measurements: 'Measurements',
+            skin: 'Skin',
+        },
+        scores: {
+            overall: 'Weighted sum of the categories under the selected scoring profile, from 0 to 10.',
+            potential: 'The overall score with perfect skin and photo: same features, soft factors maxed out.',
+            symmetry: 'How closely the left and right halves match: eyes, cheeks, jaw and lips around the midline.',
+            golden_ratio: 'How close face height to width and mouth width to nose width come to φ ≈ 1.618.',
+            proportions: 'Mean of facial thirds and fifths.',
+            harmony: 'How eyes, nose, jawline and cheekbones work together.',
+            skin_quality: 'Texture, evenness of tone, redness and shine of the skin inside the face mask.',
+            jawline: 'Jaw and chin width relative to face width.',
+            cheekbones: 'Cheekbone width relative to face width.',
+            facial_thirds: 'Evenness of the three vertical zones: forehead, midface, lower third.',
+            facial_fifths: 'Evenness of the five horizontal zones, each about one eye wide.',
+            eye_score: 'Canthal tilt, openness and symmetry of the eyes.',
+            nose_score: 'Mouth width to nose width, and the facial thirds.',
+            dimorphism: 'How typical jaw, chin, cheekbones and eyes are for the sex of the selected norms. Not scored for neutral norms.',
+        },
+        profile: {
+            jaw_score: 'Gonial angle against its ideal range.',
+            chin_score: 'Chin projection relative to the vertical through the nose bridge.',
+            nose_score: 'Nasofrontal and nasolabial angles.',
+            lip_score: 'Lip position relative to the E-line from nose tip to chin.',
+            forehead_score: 'Backward slope of the forehead from vertical.',
+            thirds_score: 'Evenness of the facial thirds in profile.',
+        },
+        measurements: {
+            canthal_tilt: 'Angle of the line from the inner to the outer eye corner, in degrees. Positive when the outer corner is higher.',
+            midface_ratio: 'Eye-to-mouth height divided by cheek width. Lower means a more compact midface.',
+            jaw_angle: 'Jaw angle seen from the front (ear, jaw corner, chin), mean of both sides.',
+            eye_aspect_ratio: 'Eye height to eye width, mean of both eyes.',
+            gonial_angle: 'Jaw angle in profile: ramus, jaw corner, chin.',
+            nasofrontal_angle: 'Angle between the forehead and the nasal bridge at the nasion.',
+            nasolabial_angle: 'Angle between the base of the nose and the upper lip.',
+            forehead_slope: 'Backward slope of the forehead from vertical, in degrees.',
+            e_line_upper_lip: 'Upper lip distance to the E-line, in % of face height; negative means behind the line.',
+            e_line_lower_lip: 'Lower lip distance to the E-line, in % of face height; negative means behind the line.',
+            chin_projection: 'How far the chin sits ahead of the vertical through the nose bridge, in % of face height.',
+            profile_thirds: 'Upper, middle and lower third as shares of face height in profile, %.',
+        },
+        skin: {
+            texture: 'Fine surface relief: pores, bumps, breakouts. Lower is smoother.',
+            tone: 'Blotchiness of skin color. Lower is a more even tone.',
+            redness: 'Share of skin clearly redder than the face’s own tone, %.',
+            shine: 'Share of bright specular highlights from oily skin, %.',
+        },
+    },
+};
@@ -0,0 +1,627 @@
+import type { AnalysisErrorCode, ImportErrorReason, ValidationRule } from '../errors';
+import type { ScoreKey } from '../scoring';
+import type { ProfileScoreKey } from '../analyzeProfile';
+import type { ExpressionLabel } from '../expression';
+import type { QualityCheckId } from '../qualityGate';
+import type { WarningCode } from '../quality';
+import type { RegularizationRule } from '../regularization';
+import type { SkinRegion } from '../skin';
+import type { OverlayLayer, OverlayTheme } from '../visualize';
+import type { DeltaSignificance } from '../compare';
+import type { HistoryMetricKey } from '../history';
+import type { DisagreementMetric, ReportComponentKey } from '../combinedReport';
+import type { AnalysisProgress } from '../analysisClient';
+import type { FrontLandmark, ProfileLandmark } from '../landmarkEdit';
+
+/**
+ * Russian catalog. Its shape is the `Messages` type every other locale must match.
+ */
+
+// Raw measurements shown as stats, shared by the result card and the glossary
+type MeasurementKey =
+    | 'canthal_tilt'
+    | 'midface_ratio'
+    | 'jaw_angle'
+    | 'eye_aspect_ratio'
+    | 'gonial_angle'
+    | 'nasofrontal_angle'
+    | 'nasolabial_angle'
+    | 'forehead_slope'
+    | 'e_line_upper_lip'
+    | 'e_line_lower_lip'
+    | 'chin_projection'
+    | 'profile_thirds';
+
+type SkinMetricKey = 'texture' | 'tone' | 'redness' | 'shine';
+
+export const ru = {
+    language: { name: 'Русский', label: 'Язык' },
+
+    app: {
+        tagline: 'Точный анализ эстетики лица',
+    },
+
+    tabs: {
+        front: 'Анфас',
+        side: 'Профиль',
+        history: 'История',
+        compare: 'Сравнение',
+        import: 'Импорт',
+        glossary: 'Глоссарий',
+    },
+
+    stages: {
+        model: 'Загрузка модели',
+        detection: 'Поиск лица',
+        refinement: 'Уточнение точек',
+        scoring: 'Подсчет оценок',
+    } satisfies Record<AnalysisProgress['stage'], string>,
+
+    analyze: {
+        photoProgress: (index: number, total: number, stage: string) => `Фото ${index}/${total} • ${stage}`,
+        norms: 'Нормы',
+        strict: 'Strict',
+        strictHint: 'Без регуляризации точек лица',
+        preview: 'Превью',
+        uploadPhoto: 'Загрузить фото',
+        or: 'или',
+        useCamera: 'Камера',
+        photoSeries: (min: number, max: number) => `Серия фото (${min}–${max})`,
+        captureSeries: 'Снять серию',
+        cancel: 'Отмена',
+        clear: 'Очистить',
+        processing: 'Обработка...',
+        analyze: 'Анализ лица',
+        showCorrections: 'Показать коррекцию',
+        editPoints: 'Править точки',
+        analyzeAllFaces: (count: number) => `Анализ всех лиц (${count})`,
+        analyzeAnyway: 'Все равно анализировать',
+        awaitingFront: 'Ожидание фото',
+        awaitingSide: 'Профиль',
+        frontHint: 'Загрузите качественное фото анфас. Модель найдет более 478 точек лица.',
+        sideHint: 'Загрузите фото строго в профиль. Модель измерит углы челюсти, носа, губ и подбородка.',
+    },
+
+    scores: {
+        overall: 'Общий балл',
+        symmetry: 'Симметрия',
+        golden_ratio: 'Золотое сечение',
+        proportions: 'Пропорции',
+        harmony: 'Гармония',
+        skin_quality: 'Качество кожи',
+        jawline: 'Линия челюсти',
+        cheekbones: 'Скулы',
+        facial_thirds: 'Трети лица',
+        facial_fifths: 'Пятые лица',
+        eye_score: 'Глаза',
+        nose_score: 'Нос',
+        dimorphism: 'Диморфизм',
+    } satisfies Record<ScoreKey | 'overall', string>,
+
+    profileScores: {
+        jaw_score: 'Угол челюсти',
+        chin_score: 'Подбородок',
+        nose_score: 'Нос',
+        lip_score: 'Губы',
+        forehead_score: 'Лоб',
+        thirds_score: 'Трети лица',
+    } satisfies Record<ProfileScoreKey, string>,
+
+    measurements: {
+        canthal_tilt: 'Кантальный наклон',
+        midface_ratio: 'Средняя зона',
+        jaw_angle: 'Угол челюсти',
+        eye_aspect_ratio: 'Открытость глаз',
+        gonial_angle: 'Гониальный угол',
+        nasofrontal_angle: 'Назофронтальный',
+        nasolabial_angle: 'Назолабиальный',
+        forehead_slope: 'Наклон лба',
+        e_line_upper_lip: 'E-линия, верхняя губа',
+        e_line_lower_lip: 'E-линия, нижняя губа',
+        chin_projection: 'Выступание подбородка',
+        profile_thirds: 'Трети',
+    } satisfies Record<MeasurementKey, string>,
+
+    // Names of the inputs listed under each score
+    terms: {
+        jaw_ratio: 'ширина челюсти',
+        chin_ratio: 'ширина подбородка',
+        cheek_ratio: 'ширина скул',
+        skin_texture: 'текстура кожи',
+        skin_tone: 'неровность тона',
+        skin_redness: 'покраснения',
+        skin_shine: 'блеск',
+        sharpness: 'резкость фото',
+        contrast: 'контраст фото',
+        brightness: 'яркость фото',
+        eye_symmetry: 'симметрия глаз',
+        cheek_symmetry: 'симметрия скул',
+        jaw_symmetry: 'симметрия челюсти',
+        lip_symmetry: 'симметрия губ',
+        face_ratio: 'высота / ширина лица',
+        mouth_nose_ratio: 'рот / нос',
+        thirds_deviation: 'отклонение третей',
+        fifths_deviation: 'отклонение пятых',
+        facial_thirds: 'трети лица',
+        facial_fifths: 'пятые лица',
+        canthal_tilt: 'кантальный наклон',
+        eye_aspect_ratio: 'открытость глаз',
+        eye_score: 'глаза',
+        nose_score: 'нос',
+        jawline: 'линия челюсти',
+        cheekbones: 'скулы',
+    } as Record<string, string>,
+
+    faceShapes: {
+        Oval: 'Овал',
+        Heart: 'Сердце',
+        Rectangular: 'Прямоугольник',
+        Square: 'Квадрат',
+        Round: 'Круг',
+    } as Record<string, string>,
+
+    normSets: {
+        neutral: 'Нейтральные',
+        male: 'Мужские',
+        female: 'Женские',
+        'male-east-asian': 'Мужские • Восточная Азия',
+        'female-east-asian': 'Женские • Восточная Азия',
+    } as Record<string, string>,
+
+    scoringProfiles: {
+        classic: 'Классический',
+        structure: 'Структурный',
+    } as Record<string, string>,
+
+    expressions: {
+        neutral: 'Нейтральное',
+        smile: 'Улыбка',
+        mouth_open: 'Рот открыт',
+        brows_raised: 'Брови подняты',
+        squint: 'Прищур',
+        eyes_closed: 'Глаза закрыты',
+    } satisfies Record<ExpressionLabel, string>,
+
+    warnings: {
+        lighting_dark: 'Слишком темно',
+        lighting_bright: 'Слишком светло',
+        image_blurry: 'Фото размыто',
+        pose_corrected: 'Голова немного повернута: симметрия скорректирована',
+    } satisfies Record<WarningCode, string>,
+
+    quality: {
+        title: 'Качество фото',
+        checks: {
+            face_size: {
+                message: 'Лицо слишком мелкое в кадре',
+                remediation: 'Подойдите ближе или снимайте в большем разрешении: лицо должно быть не меньше трети кадра',
+            },
+            exposure: {
+                message: 'Лицо слишком темное или пересвеченное',
+                remediation: 'Встаньте лицом к окну или мягкому источнику света, без вспышки и яркого фона сзади',
+            },
+            clipping: {
+                message: 'На лице есть провалы в черное или пересветы',
+                remediation: 'Уберите прямой свет с лица и отключите фильтры, повышающие контраст',
+            },
+            side_lighting: {
+                message: 'Свет падает сбоку: половины лица освещены по-разному',
+                remediation: 'Повернитесь к источнику света лицом, чтобы обе щеки были освещены одинаково',
+            },
+            blur: {
+                message: 'Лицо не в фокусе',
+                remediation: 'Нажмите на лицо на экране для фокусировки и держите камеру неподвижно',
+            },
+            motion_blur: {
+                message: 'Смазано движением',
+                remediation: 'Обопритесь на что-нибудь или используйте таймер, чтобы камера не двигалась при съемке',
+            },
+            compression: {
+                message: 'Сильные артефакты сжатия JPEG',
+                remediation: 'Загрузите оригинал фото, а не скриншот или снимок из мессенджера',
+            },
+            glasses: {
+                message: 'Похоже, на лице очки',
+                remediation: 'Снимите очки: оправа закрывает уголки глаз и переносицу',
+            },
+            hair_over_brows: {
+                message: 'Волосы закрывают лоб или брови',
+                remediation: 'Уберите волосы со лба, чтобы были видны брови и линия роста волос',
+            },
+            lens_distortion: {
+                message: 'Камера слишком близко: перспектива искажает пропорции',
+                remediation: 'Отодвиньте камеру хотя бы на вытянутую руку или попросите кого-нибудь снять вас с 1-1,5 м',
+            },
+        } satisfies Record<QualityCheckId, { message: string; remediation: string }>,
+    },
+
+    errors: {
+        messages: {
+            NO_FACE: 'Лицо не обнаружено',
+            MULTIPLE_FACES: 'Обнаружено несколько лиц',
+            INVALID_ANATOMY: 'Точки лица распознаны неверно',
+            FACE_ALIGNMENT: 'Не удалось выровнять точки лица',
+            HEAD_POSE: 'Голова повернута',
+            LOW_QUALITY: 'Качество фото слишком низкое для анализа',
+            NON_NEUTRAL_EXPRESSION: 'Выражение лица не нейтральное',
+            NOT_A_PROFILE: 'Профиль не распознан',
+            MODEL_LOAD_FAILED: 'Не удалось загрузить модель распознавания',
+            CANVAS_UNAVAILABLE: 'Не удалось создать холст для обработки',
+            WORKER_FAILED: 'Анализ неожиданно прервался',
+            SERIES_SIZE: 'Неверное количество фото',
+            SERIES_TOO_FEW_FACES: 'Лицо найдено на слишком малом числе фото',
+            INVALID_IMPORT: 'Файл не является экспортом анализа',
+            CANCELLED: 'Анализ отменен',
+            UNKNOWN: 'Произошла ошибка при анализе',
+        } satisfies Record<AnalysisErrorCode, string>,
+        remediation: {
+            NO_FACE: 'Используйте фото с хорошим освещением, где лицо видно целиком',
+            MULTIPLE_FACES: 'Выберите лицо на фото или оставьте в кадре только одно',
+            INVALID_ANATOMY: 'Держите голову ровно, лицо должно быть открыто и не закрыто руками или волосами',
+            FACE_ALIGNMENT: 'Сделайте фото анфас на уровне глаз, без сильного наклона головы',
+            HEAD_POSE: 'Смотрите прямо в камеру, не поворачивая и не наклоняя голову',
+            LOW_QUALITY: 'Переснимите фото при хорошем освещении, без очков, с камеры на расстоянии вытянутой руки',
+            NON_NEUTRAL_EXPRESSION: 'Сделайте фото с нейтральным выражением: рот закрыт, губы расслаблены, глаза открыты',
+            NOT_A_PROFILE: 'Сделайте фото строго сбоку, чтобы были видны нос и подбородок',
+            MODEL_LOAD_FAILED: 'Проверьте подключение к интернету и обновите страницу',
+            CANVAS_UNAVAILABLE: 'Браузер не поддерживает обработку изображений. Попробуйте другой браузер',
+            WORKER_FAILED: 'Обновите страницу и попробуйте снова',
+            SERIES_SIZE: 'Загрузите от 3 до 10 фото одного лица',
+            SERIES_TOO_FEW_FACES: 'Добавьте более четкие снимки, где лицо хорошо видно',
+            INVALID_IMPORT: 'Выберите JSON-файл, экспортированный из LooksRate',
+            CANCELLED: 'Запустите анализ заново, когда будете готовы',
+            UNKNOWN: 'Попробуйте другое фото',
+        } satisfies Record<AnalysisErrorCode, string>,
+        // Rule-specific text overrides the generic one for the code
+        ruleMessages: {
+            head_yaw: 'Голова повернута в сторону',
+            head_pitch: 'Голова наклонена',
+        } as Partial<Record<ValidationRule, string>>,
+        rules: {
+            eyes_below_nose: 'Точки глаз оказались ниже носа: держите камеру на уровне глаз и не запрокидывайте голову',
+            nose_below_mouth: 'Нос и рот распознаны неверно: уберите с лица руки, маску или волосы',
+            mouth_below_chin: 'Подбородок не найден: лицо должно быть видно целиком, включая подбородок',
+            horizontal_misalignment: 'Глаза и нос не выстроены по горизонтали: поверните голову прямо к камере',
+            head_yaw: 'Голова повернута в сторону: поверните голову прямо к камере',
+            head_pitch: 'Голова наклонена вверх или вниз: держите подбородок ровно',
+            profile_vertical_order: 'Профиль распознан неверно: держите голову вертикально',
+            profile_nose_not_anterior: 'Нос должен быть самой выступающей точкой: встаньте строго боком к камере',
+            profile_too_wide: 'Видны оба уха: повернитесь строго боком к камере',
+        } as Partial<Record<ValidationRule, string>>,
+        multipleFaces: (count: number) => `Обнаружено несколько лиц (${count})`,
+        expression: {
+            neutral: 'Выражение лица не нейтральное',
+            eyes_closed: 'Глаза закрыты',
+            mouth_open: 'Рот открыт',
+            smile: 'На фото улыбка',
+            squint: 'Глаза прищурены',
+            brows_raised: 'Брови подняты',
+        } satisfies Record<ExpressionLabel, string>,
+        import: {
+            format: 'Файл не является экспортом анализа',
+            version: 'Версия экспорта не поддерживается',
+            landmarks: 'В экспорте нет точек лица для пересчета',
+        } satisfies Record<ImportErrorReason, string>,
+    },
+
+    result: {
+        profile: 'Профиль',
+        potential: 'Потенциал',
+        deepAnalysis: 'Глубокий анализ',
+        profileAnalysis: 'Анализ профиля',
+        breakdown: 'Из чего состоит оценка',
+        metric: 'Метрика',
+        value: 'Значение',
+        ideal: 'Идеал',
+        score: 'Балл',
+        weight: 'Вес',
+        contribution: (weight: number) => `Вклад в итог (${weight}%)`,
+        rounding: 'Округление',
+        total: 'Итог',
+        skinTitle: 'Кожа по зонам',
+        correctionsTitle: 'Коррекция точек',
+        strictNoCorrections: 'Strict: точки без коррекции',
+        correctionShift: (points: number, shift: string) => `${points} точ. • до ${shift}% IPD`,
+        manualPoints: (count: number) => `Точки исправлены вручную: ${count}`,
+        seriesPhotos: 'Фото',
+        seriesOutliers: 'Выбросы',
+        seriesFailed: 'Без лица',
+        interval: (confidence: number, min: number, max: number) => `${confidence}% ДИ ${min}–${max}`,
+        scoringFooter: (profile: string) => `Скоринг ${profile} • Precision Engine`,
+        profileFooter: 'Анализ профиля v1.0 • Precision Engine',
+        pose: (yaw: string, pitch: string, roll: string) => `Поворот ${yaw}° • наклон ${pitch}° • крен ${roll}°`,
+        expression: 'Выражение',
+        photoStats: (brightness: string, contrast: string, sharpness: string) =>
+            `Яркость фото ${brightness} • контраст ${contrast} • резкость ${sharpness}`,
+    },
+
+    skin: {
+        overall: 'Всё лицо',
+        forehead: 'Лоб',
+        cheeks: 'Щёки',
+        chin: 'Подбородок',
+        texture: 'Текстура',
+        tone: 'Тон',
+        redness: 'Покраснения',
+        shine: 'Блеск',
+    } satisfies Record<SkinRegion | 'overall' | SkinMetricKey, string>,
+
+    corrections: {
+        eye_zone: 'Глаза сдвинуты в зону',
+        eye_separation: 'Глаза раздвинуты',
+        eye_leveling: 'Глаза выровнены',
+        nose_zone: 'Кончик носа ограничен',
+        mouth_zone: 'Рот ограничен',
+        chin_centering: 'Подбородок центрирован',
+    } satisfies Record<RegularizationRule, string>,
+
+    overlay: {
+        title: 'Слои',
+        themes: {
+            tech: 'Tech',
+            contrast: 'Контраст',
+            mono: 'Моно',
+        } satisfies Record<OverlayTheme, string>,
+        layers: {
+            mesh: 'Сетка',
+            thirds: 'Трети / пятые',
+            golden: 'Золотая сетка',
+            symmetry: 'Симметрия',
+            jaw: 'Углы челюсти',
+            iris: 'Радужка / IPD',
+        } satisfies Record<OverlayLayer, string>,
+        // Layer readouts; numbers arrive formatted
+        values: {
+            points: (count: string) => `${count} точек`,
+            px: (value: string) => `${value} пикс.`,
+            heightWidth: 'В/Ш',
+            ipd: 'IPD',
+            symmetry: {
+                eye: 'глаза',
+                cheek: 'скулы',
+                jaw: 'челюсть',
+                lip: 'губы',
+            },
+        },
+    },
+
+    ranking: {
+        title: 'Сравнение лиц',
+        face: (n: number) => `Лицо ${n}`,
+    },
+
+    combined: {
+        title: 'Итоговый отчёт',
+        front: 'Анфас',
+        side: 'Профиль',
+        sources: {
+            front: 'анфас',
+            profile: 'профиль',
+            both: 'анфас + профиль',
+        },
+        components: {
+            symmetry: 'Симметрия',
+            facial_thirds: 'Трети лица',
+            facial_fifths: 'Пятые лица',
+            golden_ratio: 'Золотое сечение',
+            jaw: 'Челюсть',
+            nose: 'Нос',
+            chin: 'Подбородок',
+            lips: 'Губы',
+            forehead: 'Лоб',
+        } satisfies Record<ReportComponentKey, string>,
+        disagreementsTitle: 'Расхождения',
+        disagreements: {
+            jaw_angle: 'Угол челюсти',
+            jawline: 'Линия челюсти',
+            facial_thirds: 'Трети лица',
+            nose: 'Нос',
+        } satisfies Record<DisagreementMetric, string>,
+    },
+
+    camera: {
+        accessDenied: 'Нет доступа к камере. Разрешите его в настройках браузера.',
+        loadingModel: 'Загрузка модели...',
+        liveUnavailable: 'Живой анализ недоступен',
+        faceNotFound: 'Лицо не найдено',
+        lookStraight: 'Смотрите прямо в камеру',
+        improveQuality: 'Больше света / не двигайтесь',
+        holdStill: 'Не двигайтесь...',
+        ready: 'Готово',
+        symmetry: 'Симметрия',
+        tilt: 'Наклон',
+        thirds: 'Трети',
+        yawPitch: 'Поворот/наклон',
+        quality: 'Качество',
+        good: 'Хорошее',
+        low: 'Низкое',
+        live: 'Live',
+        auto: 'Авто',
+        autoHint: 'Снимать автоматически, когда поза и качество в норме',
+        takePhoto: 'Снять фото',
+        takeSeriesPhoto: (n: number, max: number) => `Снять фото ${n}/${max}`,
+        done: (count: number) => `Готово (${count})`,
+    },
+
+    editor: {
+        image: 'Правка точек',
+        undo: 'Отменить (Ctrl+Z)',
+        redo: 'Повторить (Ctrl+Shift+Z)',
+        reset: 'Сбросить',
+        cancel: 'Отмена',
+        done: 'Готово',
+        // Names of the draggable points, by mesh index (lib/landmarkEdit.ts)
+        landmarks: {
+            front: {
+                10: 'Верх лба',
+                9: 'Глабелла',
+                103: 'Лоб П',
+                332: 'Лоб Л',
+                33: 'Глаз П, внешний угол',
+                133: 'Глаз П, внутренний угол',
+                159: 'Глаз П, верх',
+                145: 'Глаз П, низ',
+                362: 'Глаз Л, внутренний угол',
+                263: 'Глаз Л, внешний угол',
+                386: 'Глаз Л, верх',
+                374: 'Глаз Л, низ',
+                468: 'Зрачок П',
+                473: 'Зрачок Л',
+                168: 'Спинка носа',
+                102: 'Нос П',
+                331: 'Нос Л',
+                234: 'Лицо П',
+                454: 'Лицо Л',
+                123: 'Щека П',
+                352: 'Щека Л',
+                0: 'Верхняя губа',
+                61: 'Рот П',
+                291: 'Рот Л',
+                14: 'Нижняя губа',
+                172: 'Челюсть П',
+                397: 'Челюсть Л',
+                152: 'Подбородок',
+            } satisfies Record<FrontLandmark, string>,
+            profile: {
+                10: 'Трихион',
+                9: 'Глабелла',
+                168: 'Назион',
+                1: 'Проназале',
+                2: 'Субназале',
+                0: 'Верхняя губа',
+                13: 'Стомион',
+                17: 'Нижняя губа',
+                175: 'Погонион',
+                152: 'Ментон',
+                234: 'Ухо П',
+                172: 'Гонион П',
+                454: 'Ухо Л',
+                397: 'Гонион Л',
+            } satisfies Record<ProfileLandmark, string>,
+        },
+    },
+
+    compare: {
+        before: 'До',
+        after: 'После',
+        compare: 'Сравнить',
+        processing: 'Обработка...',
+        slider: 'Шторка',
+        onion: 'Наложение',
+        significance: 'Значимость',
+        levels: {
+            noise: 'в пределах шума',
+            possible: 'возможно',
+            significant: 'значимо',
+        } satisfies Record<DeltaSignificance, string>,
+        expressionMismatch: (before: string, after: string) => `Разное выражение лица (${before} / ${after}): сравнение неточно`,
+    },
+
+    history: {
+        metrics: {
+            front_overall: 'Общий балл (анфас)',
+            profile_overall: 'Общий балл (профиль)',
+            symmetry: 'Симметрия',
+            golden_ratio: 'Золотое сечение',
+            harmony: 'Гармония',
+            skin_quality: 'Качество кожи',
+            jawline: 'Линия челюсти',
+            cheekbones: 'Скулы',
+            dimorphism: 'Диморфизм',
+            jaw_score: 'Угол челюсти (профиль)',
+            chin_score: 'Подбородок (профиль)',
+        } satisfies Record<HistoryMetricKey, string>,
+        needTwo: 'Нужно минимум два замера',
+        empty: 'Истории пока нет',
+        emptyHint: 'Каждый анализ сохраняется на этом устройстве.',
+        hiddenByExpression: (count: number) => `Скрыто замеров с другим выражением лица: ${count}`,
+        hiddenByScoring: (count: number, profile: string) => `Скрыто замеров с другой версией скоринга (не ${profile}): ${count}`,
+        compareTitle: 'Сравнение',
+        selectTwo: 'Выберите два замера для сравнения',
+        front: 'Анфас',
+        side: 'Профиль',
+        profileScoring: 'профиль',
+        remove: 'Удалить',
+        removeFailed: 'Не удалось удалить запись. Попробуйте снова',
+        scoringMismatch: (older: string, newer: string) => `Разные версии скоринга (${older} / ${newer}): оценки сравнимы лишь примерно`,
+        expressionMismatch: (older: string, newer: string) =>
+            `Разное выражение лица (${older} / ${newer}): глаза, губы и нижняя треть несравнимы`,
+    },
+
+    importer: {
+        original: 'Оригинал',
+        originalPhoto: 'Оригинал фото (необязательно)',
+        loadJson: 'Загрузить JSON',
+        loadAnother: 'Загрузить другой JSON',
+        exported: (date: string, overall: number | string) => `Экспорт ${date} • было ${overall}`,
+        title: 'Пересчет',
+        hint: 'Загрузите JSON-экспорт, чтобы заново оценить его измерения по текущим весам. Распознавание не запускается.',
+    },
+
+    exports: {
+        card: 'Карточка',
+        pdf: 'PDF',
+        json: 'JSON',
+        scoresTitle: 'Оценки',
+        warningsTitle: 'Предупреждения',
+        explanationsTitle: 'Как получены оценки',
+        measurementsTitle: 'Измерения',
+        scoringProfile: (profile: string) => `Скоринг ${profile}`,
+        scoreLine: (score: number, contribution: string, weight: number) => `${score}%  •  вклад ${contribution} (${weight}%)`,
+    },
+
+    glossary: {
+        title: 'Глоссарий',
+        intro: 'Что измеряет каждая метрика. Оценки от 0 до 100, общий балл и потенциал от 0 до 10.',
+        sections: {
+            scores: 'Оценки анфас',
+            profile: 'Оценки профиля',
+            measurements: 'Измерения',
+            skin: 'Кожа',
+        },
+        scores: {
+            overall: 'Взвешенная сумма категорий по выбранному профилю скоринга, от 0 до 10.',
+            potential: 'Балл, который получился бы при идеальной коже и фото: черты лица те же, «мягкие» факторы на максимуме.',
+            symmetry: 'Насколько совпадают левая и правая половины лица: глаза, скулы, челюсть и губы относительно средней линии.',
+            golden_ratio: 'Близость отношений высоты лица к ширине и ширины рта к ширине носа к числу φ ≈ 1,618.',
+            proportions: 'Среднее третей и пятых лица.',
+            harmony: 'Сочетание глаз, носа, линии челюсти и скул.',
+            skin_quality: 'Текстура, ровность тона, покраснения и блеск кожи внутри маски лица.',
+            jawline: 'Ширина челюсти и подбородка относительно ширины лица.',
+            cheekbones: 'Ширина скул относительно ширины лица.',
+            facial_thirds: 'Равенство трех зон по высоте: лоб, середина лица, нижняя треть.',
+            facial_fifths: 'Равенство пяти зон по ширине, каждая примерно в ширину глаза.',
+            eye_score: 'Кантальный наклон, открытость и симметрия глаз.',
+            nose_score: 'Отношение ширины рта к ширине носа и трети лица.',
+            dimorphism: 'Насколько челюсть, подбородок, скулы и глаза типичны для пола выбранных норм. Для нейтральных норм не считается.',
+        } satisfies Record<ScoreKey | 'overall' | 'potential', string>,
+        profile: {
+            jaw_score: 'Гониальный угол относительно идеального диапазона.',
+            chin_score: 'Выступание подбородка относительно вертикали через переносицу.',
+            nose_score: 'Назофронтальный и назолабиальный углы.',
+            lip_score: 'Положение губ относительно E-линии от кончика носа до подбородка.',
+            forehead_score: 'Наклон лба назад от вертикали.',
+            thirds_score: 'Равенство третей лица в профиль.',
+        } satisfies Record<ProfileScoreKey, string>,
+        measurements: {
+            canthal_tilt: 'Угол линии от внутреннего к внешнему уголку глаза, в градусах. Положительный — внешний уголок выше.',
+            midface_ratio: 'Высота от глаз до рта, деленная на ширину скул. Меньше — компактнее средняя зона.',
+            jaw_angle: 'Угол челюсти анфас (ухо — угол челюсти — подбородок), среднее двух сторон.',
+            eye_aspect_ratio: 'Высота глаза к его ширине, среднее двух глаз.',
+            gonial_angle: 'Угол челюсти в профиль: ветвь — угол — подбородок.',
+            nasofrontal_angle: 'Угол между лбом и спинкой носа у переносицы.',
+            nasolabial_angle: 'Угол между основанием носа и верхней губой.',
+            forehead_slope: 'Наклон лба назад от вертикали, в градусах.',
+            e_line_upper_lip: 'Расстояние верхней губы до E-линии в % высоты лица; отрицательное — губа за линией.',
+            e_line_lower_lip: 'Расстояние нижней губы до E-линии в % высоты лица; отрицательное — губа за линией.',
+            chin_projection: 'Насколько подбородок выступает вперед от вертикали через переносицу, в % высоты лица.',
+            profile_thirds: 'Доли верхней, средней и нижней трети в высоте лица в профиль, %.',
+        } satisfies Record<MeasurementKey, string>,
+        skin: {
+            texture: 'Мелкий рельеф кожи: поры, неровности, высыпания. Меньше — глаже.',
+            tone: 'Пятнистость цвета кожи. Меньше — ровнее тон.',
+            redness: 'Доля кожи заметно краснее среднего тона лица, %.',
+            shine: 'Доля ярких бликов от жирного блеска, %.',
+        } satisfies Record<SkinMetricKey, string>,
+    },
+};
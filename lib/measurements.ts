@@ -0,0 +1,235 @@
+import { QualityMetrics } from './quality';
+import { SkinMetrics } from './skin';
+import { dist, calculateAngle, Point } from './geometry';
+
+/**
+ * Pure geometric measurements of a frontal face, extracted from mesh landmarks.
+ * No scoring opinion lives here; see `scoring.ts`.
+ */
+
+export interface FaceDistances {
+    face_width: number;
+    face_height: number;
+    jaw_width: number;
+    cheek_width: number;
+    forehead_width: number;
+    chin_length: number;
+    nose_width: number;
+    mouth_width: number;
+    midface_height: number; // Mid-eyes to mouth
+    eye_width: { left: number; right: number };
+    eye_height: { left: number; right: number };
+    thirds: [number, number, number]; // Upper / Mid / Lower
+    fifths: [number, number, number, number, number]; // Visual left -> right
+}
+
+export interface FaceMeasurements {
+    // Interpupillary distance in source pixels; every distance below is divided by it
+    ipd_px: number;
+    distances: FaceDistances; // In IPD units
+
+    // Scale-free ratios
+    ratios: {
+        jaw_ratio: number; // Jaw / Face width
+        chin_ratio: number; // Chin / Face height
+        cheek_ratio: number; // Cheek / Jaw width
+        face_ratio: number; // Face height / width
+        mouth_nose_ratio: number; // Mouth / Nose width
+        midface_ratio: number; // Compactness
+        eye_aspect_ratio: number; // Openness (mean of both eyes)
+        eye_aspect_ratio_left: number;
+        eye_aspect_ratio_right: number;
+    };
+
+    // Angles (degrees)
+    angles: {
+        canthal_tilt: number; // Mean of both eyes
+        canthal_tilt_left: number;
+        canthal_tilt_right: number;
+        jaw_angle: number; // Mean of both sides
+        jaw_angle_left: number;
+        jaw_angle_right: number;
+    };
+
+    // Bilateral symmetry (0-100, 100 = perfect)
+    symmetry: { eye: number; cheek: number; jaw: number; lip: number };
+
+    quality: QualityMetrics; // Whole photo, not the face
+    skin?: SkinMetrics; // Face skin only; absent on results from before skin analysis
+}
+
+// Helper function for Canthal Tilt (degrees relative to horizon)
+function calculateCanthalTilt(inner: Point, outer: Point): number {
+    // Inverted Y axis: Higher Y value means lower on screen.
+    // We want positive if outer is vertically "higher" (smaller Y) than inner.
+    const dy = inner.y - outer.y;
+    const dx = outer.x - inner.x;
+    const angleRad = Math.atan2(dy, dx);
+    return (angleRad * 180) / Math.PI;
+}
+
+function calculateSymmetry(centerPoint: Point, leftPoint: Point, rightPoint: Point): number {
+    const leftDist = dist(centerPoint, leftPoint);
+    const rightDist = dist(centerPoint, rightPoint);
+    const difference = Math.abs(leftDist - rightDist);
+    const average = (leftDist + rightDist) / 2;
+
+    // Symmetry percentage (100 = perfect symmetry)
+    return average > 0 ? (1 - difference / average) * 100 : 100;
+}
+
+export function measureFace(keypoints: Point[], quality: QualityMetrics): FaceMeasurements {
+    // Map landmarks
+    const getKeypoint = (idx: number) => ({ x: keypoints[idx].x, y: keypoints[idx].y });
+
+    const forehead_top = getKeypoint(10);
+    const chin_bottom = getKeypoint(152);
+    const face_left = getKeypoint(234);
+    const face_right = getKeypoint(454);
+    const cheek_left = getKeypoint(123);
+    const cheek_right = getKeypoint(352);
+    const jaw_left = getKeypoint(172);
+    const jaw_right = getKeypoint(397);
+    const mouth_bottom = getKeypoint(14);
+
+    // Additional points for advanced metrics
+    const eye_right_outer = getKeypoint(33);
+    const eye_right_inner = getKeypoint(133);
+    const eye_left_inner = getKeypoint(362);
+    const eye_left_outer = getKeypoint(263);
+    const nose_center = getKeypoint(168);
+    const nose_base = getKeypoint(9);  // Between eyebrows
+    const nose_tip = getKeypoint(0);
+    const mouth_left = getKeypoint(61);
+    const mouth_right = getKeypoint(291);
+    const nose_left = getKeypoint(102);  // Nose ala left
+    const nose_right = getKeypoint(331); // Nose ala right
+
+    // Extract features
+    const face_width = dist(face_left, face_right);
+    const face_height = dist(forehead_top, chin_bottom);
+    const jaw_width = dist(jaw_left, jaw_right);
+    const cheek_width = dist(cheek_left, cheek_right);
+    const chin_length = dist(mouth_bottom, chin_bottom);
+    const nose_width = dist(nose_left, nose_right);
+    const mouth_width = dist(mouth_left, mouth_right);
+
+    // Forehead width approx
+    const forehead_left = getKeypoint(103);
+    const forehead_right = getKeypoint(332);
+    const forehead_width = dist(forehead_left, forehead_right);
+
+    // Symmetry around the nose bridge
+    const symmetry = {
+        eye: calculateSymmetry(nose_center, eye_left_outer, eye_right_outer),
+        cheek: calculateSymmetry(nose_center, cheek_left, cheek_right),
+        jaw: calculateSymmetry(nose_center, jaw_left, jaw_right),
+        lip: calculateSymmetry(nose_center, mouth_left, mouth_right),
+    };
+
+    // Face Thirds (Vertical)
+    const thirds: [number, number, number] = [
+        dist(forehead_top, nose_base),
+        dist(nose_base, nose_tip),
+        dist(nose_tip, chin_bottom),
+    ];
+
+    // Face Fifths (Horizontal)
+    const fifths: [number, number, number, number, number] = [
+        dist(face_left, eye_right_outer),
+        dist(eye_right_outer, eye_right_inner),
+        dist(eye_right_inner, eye_left_inner),
+        dist(eye_left_inner, eye_left_outer),
+        dist(eye_left_outer, face_right),
+    ];
+
+    // --- Deep Analysis Calculations ---
+
+    // 1. Canthal Tilt
+    // Right Eye: Inner 133, Outer 33
+    // Left Eye: Inner 362, Outer 263
+    const tiltRight = calculateCanthalTilt(eye_right_inner, eye_right_outer);
+    const tiltLeft = calculateCanthalTilt(eye_left_inner, eye_left_outer);
+    const canthal_tilt = (tiltRight + tiltLeft) / 2;
+
+    // 2. Eye Aspect Ratio (EAR) - Openness
+    // Top 159, Bottom 145 for Right
+    // Top 386, Bottom 374 for Left
+    const eyeHeightR = dist(getKeypoint(159), getKeypoint(145));
+    const eyeWidthR = dist(eye_right_inner, eye_right_outer);
+    const earR = eyeHeightR / eyeWidthR;
+
+    const eyeHeightL = dist(getKeypoint(386), getKeypoint(374));
+    const eyeWidthL = dist(eye_left_inner, eye_left_outer);
+    const earL = eyeHeightL / eyeWidthL;
+    const eye_aspect_ratio = (earR + earL) / 2;
+
+    // 3. Midface Ratio (Compactness)
+    // Distance from Pupil/EyeCenter to Mouth Center / Bizygomatic Width (Cheeks)
+    // Using Eye Centers (approx 468/473 for Iris, or center of box)
+    // Let's use Eye Centers calculated from corners
+    const eyeCenterR = { x: (eye_right_inner.x + eye_right_outer.x)/2, y: (eye_right_inner.y + eye_right_outer.y)/2 };
+    const eyeCenterL = { x: (eye_left_inner.x + eye_left_outer.x)/2, y: (eye_left_inner.y + eye_left_outer.y)/2 };
+    const midPointEyes = { x: (eyeCenterR.x + eyeCenterL.x)/2, y: (eyeCenterR.y + eyeCenterL.y)/2 };
+
+    const midfaceHeight = dist(midPointEyes, mouth_bottom); // Pupil to Upper Lip is standard, but we use Mid-Eyes to Mouth Bottom for robustness
+    // Actually, "Midface Ratio" is often IPD / Midface Height. Or Midface Height / Face Width.
+    // A compact midface is < 1.0 ratio (Height / Width).
+    // Let's use: Midface Height (Eyes to Mouth) / Cheek Width
+    const midface_ratio = midfaceHeight / cheek_width;
+
+    // 4. Jaw Angle (Gonial Angle)
+    // Ear (234) -> Jaw Corner (172) -> Chin (152) for Left (Visual Right)
+    // Wait, 234 is right side of face (Visual Left).
+    // Right Side (Visual Left): Ear(234) -> Jaw(172) -> Chin(152)
+    // Left Side (Visual Right): Ear(454) -> Jaw(397) -> Chin(152)
+    const angleR = calculateAngle(getKeypoint(234), jaw_left, chin_bottom);
+    const angleL = calculateAngle(getKeypoint(454), jaw_right, chin_bottom);
+    const jaw_angle = (angleR + angleL) / 2;
+
+    // Interpupillary distance: iris centers when refined landmarks are present
+    const pupilR = keypoints.length > 473 ? getKeypoint(468) : eyeCenterR;
+    const pupilL = keypoints.length > 473 ? getKeypoint(473) : eyeCenterL;
+    const ipd_px = dist(pupilR, pupilL);
+    const u = (d: number) => d / ipd_px;
+
+    return {
+        ipd_px,
+        distances: {
+            face_width: u(face_width),
+            face_height: u(face_height),
+            jaw_width: u(jaw_width),
+            cheek_width: u(cheek_width),
+            forehead_width: u(forehead_width),
+            chin_length: u(chin_length),
+            nose_width: u(nose_width),
+            mouth_width: u(mouth_width),
+            midface_height: u(midfaceHeight),
+            eye_width: { left: u(eyeWidthL), right: u(eyeWidthR) },
+            eye_height: { left: u(eyeHeightL), right: u(eyeHeightR) },
+            thirds: thirds.map(u) as FaceDistances['thirds'],
+            fifths: fifths.map(u) as FaceDistances['fifths'],
+        },
+        ratios: {
+            jaw_ratio: jaw_width / face_width,
+            chin_ratio: chin_length / face_height,
+            cheek_ratio: cheek_width / jaw_width,
+            face_ratio: face_height / face_width,
+            mouth_nose_ratio: mouth_width / nose_width,
+            midface_ratio,
+            eye_aspect_ratio,
+            eye_aspect_ratio_left: earL,
+            eye_aspect_ratio_right: earR,
+        },
+        angles: {
+            canthal_tilt,
+            canthal_tilt_left: tiltLeft,
+            canthal_tilt_right: tiltRight,
+            jaw_angle,
+            jaw_angle_left: angleL,
+            jaw_angle_right: angleR,
+        },
+        symmetry,
+        quality,
+    };
+}
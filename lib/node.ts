@@ -0,0 +1,63 @@
+import './nodeGlobals';
+import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { io, setBackend } from '@tensorflow/tfjs-core';
+import '@tensorflow/tfjs-backend-wasm';
+import { createCanvas as createNodeCanvas, loadImage } from '@napi-rs/canvas';
+import { setCanvasFactory, getContext2D, AnyCanvas } from './canvas';
+import { setImageLoader, setTfjsModelSources } from './detector';
+
+/**
+ * Headless runtime for scripts: after initNodeRuntime(), analyzeFace and
+ * analyzeProfile take file paths and run entirely in Node. Detection uses the
+ * tfjs runtime on the wasm backend; canvases come from @napi-rs/canvas, which
+ * implements the same 2D API the pipeline draws with.
+ */
+
+export interface NodeRuntimeOptions {
+    // Directory holding the tfjs models, as laid out by scripts/prepare-model-assets.mjs
+    modelDir?: string;
+}
+
+export const DEFAULT_MODEL_DIR = join(process.cwd(), 'public', 'models');
+
+// Reads a tfjs graph model (model.json + weight shards) from disk
+function fileModel(modelJsonPath: string): io.IOHandler {
+    const dir = dirname(modelJsonPath);
+    return {
+        load: async () => {
+            const modelJson: io.ModelJSON = JSON.parse(await readFile(modelJsonPath, 'utf8'));
+            return io.getModelArtifactsForJSON(modelJson, async manifest => {
+                const specs = manifest.flatMap(group => group.weights);
+                const shards = await Promise.all(manifest.flatMap(group => group.paths).map(path => readFile(join(dir, path))));
+                return [specs, shards.map(b => b.buffer.slice(b.byteOffset, b.byteOffset + b.byteLength) as ArrayBuffer)];
+            });
+        },
+    };
+}
+
+// Headless canvases stand in for DOM ones: same drawing API, different classes
+const nodeCanvas = (width: number, height: number) => createNodeCanvas(width, height) as unknown as AnyCanvas;
+
+let ready: Promise<void> | null = null;
+
+// Idempotent: the first call's options win
+export function initNodeRuntime({ modelDir = DEFAULT_MODEL_DIR }: NodeRuntimeOptions = {}): Promise<void> {
+    ready ??= (async () => {
+        setCanvasFactory(nodeCanvas);
+        // Decoded into a canvas so the detector reads it as pixels like every other canvas
+        setImageLoader(async path => {
+            const image = await loadImage(await readFile(path));
+            const canvas = nodeCanvas(image.width, image.height);
+            getContext2D(canvas).drawImage(image as unknown as ImageBitmap, 0, 0);
+            return canvas;
+        });
+        setTfjsModelSources({
+            detectorModelUrl: fileModel(join(modelDir, 'face_detection_short', 'model.json')),
+            landmarkModelUrl: fileModel(join(modelDir, 'attention_mesh', 'model.json')),
+        });
+
+        if (!(await setBackend('wasm'))) throw new Error('tfjs wasm backend failed to initialize');
+    })();
+    return ready;
+}
@@ -0,0 +1,13 @@
+import { ImageData } from '@napi-rs/canvas';
+
+/**
+ * Browser globals the pipeline's dependencies expect under Node. Imported by
+ * lib/node.ts ahead of everything else: @mediapipe/face_mesh reads `navigator`
+ * while loading, which Node only provides from v21.
+ */
+
+const globals = globalThis as { navigator?: unknown; ImageData?: unknown };
+
+globals.navigator ??= { userAgent: `Node.js/${process.version}`, platform: process.platform };
+// tfjs recognizes pixel input with `instanceof ImageData`
+globals.ImageData ??= ImageData;
@@ -0,0 +1,159 @@
+import type { ScoringProfile } from './scoring';
+
+/**
+ * Reference norm sets: sex- and population-specific ideal ranges used throughout
+ * scoring, plus the female/male reference means that anchor the dimorphism axis.
+ */
+
+export type Sex = 'male' | 'female' | 'neutral';
+
+export interface IdealRange {
+    min: number;
+    max: number;
+    falloff: number; // Distance outside the range at which the score hits 0
+}
+
+export type ProfileIdeals = {
+    gonial_angle: IdealRange;
+    nasofrontal_angle: IdealRange;
+    nasolabial_angle: IdealRange;
+    e_line_upper_lip: IdealRange;
+    e_line_lower_lip: IdealRange;
+    chin_projection: IdealRange;
+    forehead_slope: IdealRange;
+};
+
+// Traits that differ on average between female and male faces
+export type DimorphicTrait = 'jaw_ratio' | 'chin_ratio' | 'cheek_ratio' | 'eye_aspect_ratio' | 'canthal_tilt';
+
+export interface NormSet {
+    id: string;
+    label: string;
+    sex: Sex;
+    population: string | null;
+
+    // Front scoring ranges, overriding the ScoringProfile defaults
+    ranges: Partial<ScoringProfile['ranges']>;
+    // Side profile ideals, overriding the neutral defaults
+    profile: Partial<ProfileIdeals>;
+    // Population reference means for each sex
+    dimorphism: Record<DimorphicTrait, { female: number; male: number }>;
+}
+
+export const DEFAULT_PROFILE_IDEALS: ProfileIdeals = {
+    gonial_angle: { min: 115, max: 130, falloff: 20 },
+    nasofrontal_angle: { min: 115, max: 135, falloff: 20 },
+    nasolabial_angle: { min: 90, max: 110, falloff: 20 },
+    e_line_upper_lip: { min: -3.5, max: -1.5, falloff: 3 },
+    e_line_lower_lip: { min: -2.5, max: 0, falloff: 3 },
+    chin_projection: { min: -4, max: 2, falloff: 6 },
+    forehead_slope: { min: 5, max: 15, falloff: 15 },
+};
+
+const GENERAL_DIMORPHISM: NormSet['dimorphism'] = {
+    jaw_ratio: { female: 0.70, male: 0.76 },
+    chin_ratio: { female: 0.10, male: 0.12 },
+    cheek_ratio: { female: 1.08, male: 0.98 },
+    eye_aspect_ratio: { female: 0.33, male: 0.28 },
+    canthal_tilt: { female: 6, male: 4 },
+};
+
+const MALE: NormSet = {
+    id: 'male',
+    label: 'Male',
+    sex: 'male',
+    population: null,
+    ranges: {
+        jaw_ratio: [0.65, 0.88],
+        chin_ratio: [0.09, 0.15],
+        canthal_tilt: [-1, 7],
+        eye_aspect_ratio: [0.22, 0.40],
+    },
+    profile: {
+        gonial_angle: { min: 112, max: 125, falloff: 20 },
+        nasolabial_angle: { min: 90, max: 105, falloff: 20 },
+        forehead_slope: { min: 8, max: 18, falloff: 15 },
+    },
+    dimorphism: GENERAL_DIMORPHISM,
+};
+
+const FEMALE: NormSet = {
+    id: 'female',
+    label: 'Female',
+    sex: 'female',
+    population: null,
+    ranges: {
+        jaw_ratio: [0.55, 0.78],
+        chin_ratio: [0.07, 0.12],
+        canthal_tilt: [0, 10],
+        eye_aspect_ratio: [0.28, 0.48],
+    },
+    profile: {
+        gonial_angle: { min: 120, max: 132, falloff: 20 },
+        nasolabial_angle: { min: 95, max: 115, falloff: 20 },
+        forehead_slope: { min: 2, max: 12, falloff: 15 },
+    },
+    dimorphism: GENERAL_DIMORPHISM,
+};
+
+const NEUTRAL: NormSet = {
+    id: 'neutral',
+    label: 'Neutral',
+    sex: 'neutral',
+    population: null,
+    ranges: {},
+    profile: {},
+    dimorphism: GENERAL_DIMORPHISM,
+};
+
+// Population presets shift the eye-region references of a base set
+function withPopulation(
+    base: NormSet,
+    population: { id: string; label: string; canthal_tilt: number; eye_aspect_ratio: number }
+): NormSet {
+    const shift = (range: [number, number] | undefined, fallback: [number, number], by: number): [number, number] => {
+        const [min, max] = range ?? fallback;
+        return [min + by, max + by];
+    };
+    const shiftRef = (ref: { female: number; male: number }, by: number) => ({
+        female: ref.female + by,
+        male: ref.male + by,
+    });
+
+    return {
+        ...base,
+        id: `${base.id}-${population.id}`,
+        label: `${base.label} • ${population.label}`,
+        population: population.id,
+        ranges: {
+            ...base.ranges,
+            canthal_tilt: shift(base.ranges.canthal_tilt, [-2, 8], population.canthal_tilt),
+            eye_aspect_ratio: shift(base.ranges.eye_aspect_ratio, [0.25, 0.45], population.eye_aspect_ratio),
+        },
+        dimorphism: {
+            ...base.dimorphism,
+            canthal_tilt: shiftRef(base.dimorphism.canthal_tilt, population.canthal_tilt),
+            eye_aspect_ratio: shiftRef(base.dimorphism.eye_aspect_ratio, population.eye_aspect_ratio),
+        },
+    };
+}
+
+const EAST_ASIAN = { id: 'east-asian', label: 'East Asian', canthal_tilt: 2, eye_aspect_ratio: -0.03 };
+
+export const NORM_SETS: NormSet[] = [
+    NEUTRAL,
+    MALE,
+    FEMALE,
+    withPopulation(MALE, EAST_ASIAN),
+    withPopulation(FEMALE, EAST_ASIAN),
+];
+
+export const DEFAULT_NORM_SET = NEUTRAL;
+
+export function getNormSet(id?: string | null): NormSet {
+    return NORM_SETS.find(n => n.id === id) ?? DEFAULT_NORM_SET;
+}
+
+export function getProfileIdeals(norms: NormSet): ProfileIdeals {
+    return { ...DEFAULT_PROFILE_IDEALS, ...norms.profile };
+}
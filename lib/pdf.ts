@@ -0,0 +1,64 @@
+/**
+ * Minimal PDF writer: one full-page JPEG per page. Pages are rendered on a canvas
+ * first, so any script (Cyrillic labels included) works without embedding fonts.
+ */
+
+export interface PdfPage {
+    jpeg: Uint8Array;
+    width: number; // Pixel size of the JPEG
+    height: number;
+}
+
+// A4 in PostScript points
+export const A4 = { width: 595.28, height: 841.89 };
+
+export function buildPdf(pages: PdfPage[]): Blob {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n${body}\n`);
+        if (stream) {
+            write('stream\n');
+            write(stream);
+            write('\nendstream\n');
+        }
+        write('endobj\n');
+    };
+
+    // Object ids: 1 catalog, 2 page tree, then page / image / content per page
+    const pageId = (i: number) => 3 + i * 3;
+    write('%PDF-1.4\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+    pages.forEach((page, i) => {
+        const id = pageId(i);
+        const content = encoder.encode(`q ${A4.width} 0 0 ${A4.height} 0 0 cm /Im0 Do Q`);
+        object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] /Resources << /XObject << /Im0 ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R >>`);
+        object(
+            id + 1,
+            `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+            page.jpeg
+        );
+        object(id + 2, `<< /Length ${content.length} >>`, content);
+    });
+
+    const count = 3 + pages.length * 3;
+    const xref = length;
+    write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+    for (let id = 1; id < count; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`);
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
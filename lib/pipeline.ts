@@ -0,0 +1,18 @@
+import { AnalysisCancelledError } from './errors';
+
+/**
+ * Progress reporting and cancellation shared by the analysis pipelines
+ */
+
+export type AnalysisStage = 'model' | 'detection' | 'refinement' | 'scoring';
+
+export interface PipelineOptions {
+    onStage?: (stage: AnalysisStage) => void;
+    signal?: AbortSignal;
+}
+
+// Called between stages: stops a cancelled run and reports the next stage
+export function enterStage({ onStage, signal }: PipelineOptions, stage: AnalysisStage) {
+    if (signal?.aborted) throw new AnalysisCancelledError();
+    onStage?.(stage);
+}
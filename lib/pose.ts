@@ -0,0 +1,84 @@
+import { Point, clamp, dist } from './geometry';
+
+/**
+ * Head-pose estimation from the 3D face-mesh landmarks. MediaPipe returns `z`
+ * at roughly the same scale as `x` (smaller = closer to the camera), so the
+ * cheek-to-cheek and forehead-to-chin axes give the head orientation directly.
+ */
+
+export interface Point3 extends Point {
+    z?: number;
+}
+
+export interface HeadPose {
+    yaw: number; // Degrees, positive = face turned towards the viewer's right
+    pitch: number; // Degrees, positive = chin up
+    roll: number; // Degrees, positive = eye line rising to the viewer's left
+    source: '3d' | '2d'; // '2d' when the landmarks carry no depth
+}
+
+// Beyond these the frontal metrics are unreliable: the user must turn their head
+export const MAX_YAW = 15;
+export const MAX_PITCH = 20;
+// Below this yaw the correction is within landmark noise
+export const MIN_YAW_CORRECTION = 2;
+
+const FOREHEAD = 10;
+const CHIN = 152;
+const CHEEK_RIGHT = 234; // Visual left
+const CHEEK_LEFT = 454; // Visual right
+const NOSE_TIP = 1;
+
+type Vec3 = [number, number, number];
+
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const scale = (a: Vec3, k: number): Vec3 => [a[0] * k, a[1] * k, a[2] * k];
+const unit = (a: Vec3): Vec3 => scale(a, 1 / (Math.sqrt(dot(a, a)) || 1));
+const vec = (p: Point3): Vec3 => [p.x, p.y, p.z ?? 0];
+
+const hasDepth = (keypoints: Point3[]) => keypoints.some(p => typeof p.z === 'number' && p.z !== 0);
+
+// Orthonormal face frame: x from visual-left to visual-right cheek, y from forehead to chin
+function faceAxes(keypoints: Point3[]) {
+    const xAxis = unit(sub(vec(keypoints[CHEEK_LEFT]), vec(keypoints[CHEEK_RIGHT])));
+    const down = sub(vec(keypoints[CHIN]), vec(keypoints[FOREHEAD]));
+    const yAxis = unit(sub(down, scale(xAxis, dot(down, xAxis))));
+    const center = scale(
+        [0, 1, 2].map(i => vec(keypoints[CHEEK_LEFT])[i] + vec(keypoints[CHEEK_RIGHT])[i]) as Vec3,
+        0.5
+    );
+    return { xAxis, yAxis, center };
+}
+
+export function estimateHeadPose(keypoints: Point3[]): HeadPose {
+    const cheekRight = keypoints[CHEEK_RIGHT];
+    const cheekLeft = keypoints[CHEEK_LEFT];
+    const roll = toDeg(Math.atan2(cheekLeft.y - cheekRight.y, cheekLeft.x - cheekRight.x));
+
+    if (!hasDepth(keypoints)) {
+        // No depth: the nose tip sits ~half a face width in front of the cheek line
+        const offset = (keypoints[NOSE_TIP].x - (cheekRight.x + cheekLeft.x) / 2) / (dist(cheekRight, cheekLeft) || 1);
+        return { yaw: toDeg(Math.asin(clamp(offset / 0.5, -1, 1))), pitch: 0, roll, source: '2d' };
+    }
+
+    const { xAxis, yAxis } = faceAxes(keypoints);
+    return {
+        yaw: toDeg(Math.asin(clamp(xAxis[2], -1, 1))),
+        pitch: -toDeg(Math.asin(clamp(yAxis[2], -1, 1))),
+        roll,
+        source: '3d',
+    };
+}
+
+// Projects the landmarks onto the face's own plane, undoing yaw (and pitch/roll)
+// so left/right distances are comparable again. Requires depth.
+export function frontalizeLandmarks<T extends Point3>(keypoints: T[]): T[] {
+    if (!hasDepth(keypoints)) return keypoints;
+    const { xAxis, yAxis, center } = faceAxes(keypoints);
+    return keypoints.map(p => {
+        const d = sub(vec(p), center);
+        return { ...p, x: center[0] + dot(d, xAxis), y: center[1] + dot(d, yAxis) };
+    });
+}
@@ -1,3 +1,5 @@
+import { createCanvas, AnyContext2D, DrawableImage } from './canvas';
+
 /**
  * Utility for image quality analysis (brightness, contrast, sharpness)
  */
@@ -8,19 +10,12 @@ export interface QualityMetrics {
     sharpness: number;
 }
 
-export function getQualityMetrics(img: HTMLImageElement | HTMLCanvasElement): QualityMetrics {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+export function getQualityMetrics(img: DrawableImage): QualityMetrics {
+    const canvas = createCanvas(img.width, img.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true }) as AnyContext2D | null;
     if (!ctx) return { brightness: 0, contrast: 0, sharpness: 0 };
 
-    canvas.width = img.width;
-    canvas.height = img.height;
-
-    if (img instanceof HTMLImageElement) {
-        ctx.drawImage(img, 0, 0);
-    } else {
-        ctx.drawImage(img, 0, 0);
-    }
+    ctx.drawImage(img, 0, 0);
 
     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
     const data = imageData.data;
@@ -73,3 +68,19 @@ export function getQualityMetrics(img: HTMLImageElement | HTMLCanvasElement): Qu
         sharpness   // arbitrarily scaled, needs normalization
     };
 }
+
+// Result warnings are stable codes, worded by the UI
+export type WarningCode =
+    | 'lighting_dark'
+    | 'lighting_bright'
+    | 'image_blurry'
+    | 'pose_corrected'; // Small head turn, symmetry re-measured on the frontalized mesh
+
+// Warnings for metrics outside the usable range
+export function getQualityWarnings(q: QualityMetrics): WarningCode[] {
+    const warnings: WarningCode[] = [];
+    if (q.brightness < 40) warnings.push('lighting_dark');
+    if (q.brightness > 220) warnings.push('lighting_bright');
+    if (q.sharpness < 20) warnings.push('image_blurry');
+    return warnings;
+}
@@ -0,0 +1,187 @@
+import { createCanvas, getContext2D, DrawableImage } from './canvas';
+import { dist, Point } from './geometry';
+import { INDICES } from './visualize';
+import { cropFace, faceAxis, faceMask } from './skin';
+
+/**
+ * Pre-scoring photo check on the detected face: size in frame, exposure and
+ * lighting of the face itself, blur, compression, occlusion and close-range
+ * distortion. `block` stops the analysis, `warn` is reported with the result;
+ * what each check means and how to retake the photo lives in the UI catalogs.
+ */
+
+export type QualityVerdict = 'pass' | 'warn' | 'block';
+
+export type QualityCheckId =
+    | 'face_size' // Face width in source pixels
+    | 'exposure' // Mean face luminance (0-255)
+    | 'clipping' // % of face pixels crushed to black or blown to white
+    | 'side_lighting' // Brightness difference between face halves (0-1)
+    | 'blur' // RMS Laplacian of the face at a fixed scale
+    | 'motion_blur' // Gradient anisotropy (0 = none, 1 = one direction only)
+    | 'compression' // JPEG 8x8 blockiness, boundary / interior gradient ratio
+    | 'glasses' // Horizontal edge strength on the nose bridge vs the face
+    | 'hair_over_brows' // Share of the forehead much darker than the cheeks
+    | 'lens_distortion'; // Face width / shorter image side
+
+export interface QualityCheck {
+    id: QualityCheckId;
+    status: QualityVerdict;
+    value: number;
+}
+
+export interface QualityReport {
+    verdict: QualityVerdict; // Worst status across checks
+    checks: QualityCheck[];
+}
+
+type Band = [number, number];
+
+// Acceptable [min, max] per check: outside `pass` warns, outside `warn` blocks
+const LIMITS: Record<QualityCheckId, { pass: Band; warn?: Band }> = {
+    face_size: { pass: [180, Infinity], warn: [100, Infinity] },
+    exposure: { pass: [70, 200], warn: [35, 235] },
+    clipping: { pass: [0, 8], warn: [0, 25] },
+    side_lighting: { pass: [0, 0.3] },
+    blur: { pass: [3.5, Infinity], warn: [2, Infinity] },
+    motion_blur: { pass: [0, 0.6] },
+    compression: { pass: [0, 1.35], warn: [0, 1.8] },
+    glasses: { pass: [0, 2.5] },
+    hair_over_brows: { pass: [0, 0.3] },
+    lens_distortion: { pass: [0, 0.65] },
+};
+
+// Downscale target of the face for every check except compression
+const GATE_FACE_WIDTH = 256;
+// Native-resolution patch for the blockiness check
+const COMPRESSION_PATCH = 384;
+
+const RANK: Record<QualityVerdict, number> = { pass: 0, warn: 1, block: 2 };
+
+const inside = (value: number, [min, max]: Band) => value >= min && value <= max;
+
+function check(id: QualityCheckId, value: number, status?: QualityVerdict): QualityCheck {
+    if (!status) {
+        const { pass, warn } = LIMITS[id];
+        status = inside(value, pass) ? 'pass' : !warn || inside(value, warn) ? 'warn' : 'block';
+    }
+    return { id, status, value };
+}
+
+const luminance = (px: Uint8ClampedArray, i: number) => 0.299 * px[i * 4] + 0.587 * px[i * 4 + 1] + 0.114 * px[i * 4 + 2];
+
+// Mean gradient across 8-pixel block borders over the mean inside blocks (~1 when unblocked)
+function blockiness(img: DrawableImage, center: Point): number {
+    const size = Math.min(COMPRESSION_PATCH, img.width, img.height);
+    // Align to the JPEG grid, which starts at the image origin
+    const x0 = Math.max(0, Math.min(img.width - size, Math.floor((center.x - size / 2) / 8) * 8));
+    const y0 = Math.max(0, Math.min(img.height - size, Math.floor((center.y - size / 2) / 8) * 8));
+    const canvas = createCanvas(size, size);
+    const ctx = getContext2D(canvas, { willReadFrequently: true });
+    ctx.drawImage(img, x0, y0, size, size, 0, 0, size, size);
+    const px = ctx.getImageData(0, 0, size, size).data;
+
+    let border = 0, borderN = 0, inner = 0, innerN = 0;
+    for (let y = 1; y < size; y++) {
+        for (let x = 1; x < size; x++) {
+            const i = y * size + x;
+            const l = luminance(px, i);
+            const dx = Math.abs(l - luminance(px, i - 1));
+            const dy = Math.abs(l - luminance(px, i - size));
+            if ((x0 + x) % 8 === 0) { border += dx; borderN++; } else { inner += dx; innerN++; }
+            if ((y0 + y) % 8 === 0) { border += dy; borderN++; } else { inner += dy; innerN++; }
+        }
+    }
+    const innerMean = inner / Math.max(1, innerN);
+    return innerMean > 0 ? border / Math.max(1, borderN) / innerMean : 1;
+}
+
+export function assessPhotoQuality(img: DrawableImage, keypoints: Point[]): QualityReport {
+    const faceWidth = dist(keypoints[234], keypoints[454]);
+    const crop = cropFace(img, keypoints, GATE_FACE_WIDTH);
+    const { width: w, height: h, pixels, kp } = crop;
+    const inFace = faceMask(crop, false);
+    const onSkin = faceMask(crop, true);
+    const { along, across } = faceAxis(crop);
+
+    const lum = new Float32Array(w * h);
+    for (let i = 0; i < lum.length; i++) lum[i] = luminance(pixels, i);
+
+    // Exposure, clipping and left/right balance over the whole face
+    let sum = 0, n = 0, clipped = 0, left = 0, leftN = 0, right = 0, rightN = 0;
+    // Gradients for focus and motion: Laplacian energy and the structure tensor
+    let lapSq = 0, lapN = 0, sxx = 0, syy = 0, sxy = 0, gyFace = 0, gyN = 0;
+    for (let y = 1; y < h - 1; y++) {
+        for (let x = 1; x < w - 1; x++) {
+            const i = y * w + x;
+            if (!inFace[i]) continue;
+            const l = lum[i];
+            sum += l;
+            n++;
+            if (l < 5 || l > 250) clipped++;
+            if (onSkin[i]) {
+                if (across({ x, y }) < 0) { left += l; leftN++; } else { right += l; rightN++; }
+            }
+
+            const lap = lum[i - w] + lum[i - 1] + lum[i + 1] + lum[i + w] - 4 * l;
+            lapSq += lap * lap;
+            lapN++;
+            const gx = (lum[i + 1] - lum[i - 1]) / 2, gy = (lum[i + w] - lum[i - w]) / 2;
+            sxx += gx * gx;
+            syy += gy * gy;
+            sxy += gx * gy;
+            gyFace += Math.abs(gy);
+            gyN++;
+        }
+    }
+    const exposure = sum / Math.max(1, n);
+    const leftMean = left / Math.max(1, leftN), rightMean = right / Math.max(1, rightN);
+    const sideLighting = Math.abs(leftMean - rightMean) / Math.max(1, leftMean, rightMean);
+    const sharpness = Math.sqrt(lapSq / Math.max(1, lapN));
+    const anisotropy = sxx + syy > 0 ? Math.sqrt((sxx - syy) ** 2 + 4 * sxy * sxy) / (sxx + syy) : 0;
+
+    // Glasses: a frame bridge draws a strong horizontal edge between the inner eye corners
+    const bridge = kp(168);
+    const halfW = dist(kp(133), kp(362)) * 0.35, halfH = w * 0.04;
+    let gyBridge = 0, bridgeN = 0;
+    for (let y = Math.max(1, Math.round(bridge.y - halfH)); y <= Math.min(h - 2, Math.round(bridge.y + halfH)); y++) {
+        for (let x = Math.max(1, Math.round(bridge.x - halfW)); x <= Math.min(w - 2, Math.round(bridge.x + halfW)); x++) {
+            const i = y * w + x;
+            gyBridge += Math.abs(lum[i + w] - lum[i - w]) / 2;
+            bridgeN++;
+        }
+    }
+    const glasses = gyBridge / Math.max(1, bridgeN) / Math.max(1e-6, gyFace / Math.max(1, gyN));
+
+    // Hair: forehead pixels far darker than the cheeks
+    const browLine = Math.min(...[...INDICES.EYEBROW_LEFT, ...INDICES.EYEBROW_RIGHT].map(i => along(kp(i))));
+    const eyeLine = Math.max(along(kp(145)), along(kp(374)));
+    const mouthLine = along(kp(0));
+    let cheek = 0, cheekN = 0;
+    const forehead: number[] = [];
+    for (let i = 0; i < lum.length; i++) {
+        if (!inFace[i]) continue;
+        const p = { x: i % w, y: Math.floor(i / w) };
+        const t = along(p);
+        if (t < browLine) forehead.push(lum[i]);
+        else if (onSkin[i] && t > eyeLine && t < mouthLine) { cheek += lum[i]; cheekN++; }
+    }
+    const cheekMean = cheek / Math.max(1, cheekN);
+    const hair = forehead.length > 0 ? forehead.filter(l => l < cheekMean * 0.6).length / forehead.length : 0;
+
+    const checks = [
+        check('face_size', faceWidth),
+        check('exposure', exposure),
+        check('clipping', (clipped / Math.max(1, n)) * 100),
+        check('side_lighting', sideLighting),
+        check('blur', sharpness),
+        // Direction only matters once the face is soft overall
+        check('motion_blur', anisotropy, sharpness < LIMITS.blur.pass[0] * 2 ? undefined : 'pass'),
+        check('compression', blockiness(img, keypoints[168])),
+        check('glasses', glasses),
+        check('hair_over_brows', hair),
+        check('lens_distortion', faceWidth / Math.min(img.width, img.height)),
+    ];
+    const verdict = checks.reduce<QualityVerdict>((worst, c) => (RANK[c.status] > RANK[worst] ? c.status : worst), 'pass');
+    return { verdict, checks };
+}
@@ -0,0 +1,187 @@
+import { Point } from './geometry';
+
+/**
+ * "Impossible shape" regularization of detected landmarks: eyes, nose tip, mouth
+ * and chin are pulled back into canonical zones. Every rule that moves a point
+ * is recorded so the result can show exactly what was altered.
+ */
+
+export type RegularizationRule =
+    | 'eye_zone' // Eye groups shifted into 20-55% of face height
+    | 'eye_separation' // Eyes pushed apart to >= 12% of face width
+    | 'eye_leveling' // Eyes leveled when almost level already
+    | 'nose_zone' // Nose tip (1) clamped between the eyes and 75% of face height
+    | 'mouth_zone' // Mouth (13) clamped below 65% of face height
+    | 'chin_centering'; // Chin (152) pulled halfway to the cheek midline
+
+export interface LandmarkMove {
+    index: number;
+    dx: number; // Source pixels, regularized - detected
+    dy: number;
+}
+
+export interface LandmarkCorrection {
+    rule: RegularizationRule;
+    moves: LandmarkMove[];
+}
+
+export interface RegularizationReport {
+    applied: boolean; // False in strict mode: landmarks are the detector output
+    corrections: LandmarkCorrection[]; // Only rules that moved something, in order
+}
+
+// Movements below this are float noise, not corrections
+const MIN_MOVE_PX = 1e-6;
+
+// Indices for all eye points to ensure they move together
+const RIGHT_EYE_INDICES = [33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246];
+const LEFT_EYE_INDICES = [263, 249, 390, 373, 374, 380, 381, 382, 362, 398, 384, 385, 386, 387, 388, 466];
+// Iris indices (present if refineLandmarks is true)
+const RIGHT_IRIS_INDICES = [473, 474, 475, 476, 477];
+const LEFT_IRIS_INDICES = [468, 469, 470, 471, 472];
+
+// User Request: "If AI doubts, consider normal proportions"
+export function regularizeLandmarks<T extends Point>(keypoints: T[]): { keypoints: T[]; corrections: LandmarkCorrection[] } {
+    // Deep copy to avoid mutating original references if needed elsewhere
+    const kp = keypoints.map(p => ({ ...p }));
+    const corrections: LandmarkCorrection[] = [];
+
+    // Runs one rule and records the points it moved
+    const rule = (name: RegularizationRule, apply: () => void) => {
+        const before = kp.map(p => ({ x: p.x, y: p.y }));
+        apply();
+        const moves = kp
+            .map((p, index) => ({ index, dx: p.x - before[index].x, dy: p.y - before[index].y }))
+            .filter(m => Math.abs(m.dx) > MIN_MOVE_PX || Math.abs(m.dy) > MIN_MOVE_PX);
+        if (moves.length > 0) corrections.push({ rule: name, moves });
+    };
+
+    const forehead = kp[10];
+    const chin = kp[152];
+    const leftCheek = kp[234];  // Visual Left
+    const rightCheek = kp[454]; // Visual Right
+
+    const faceHeight = Math.abs(chin.y - forehead.y);
+    const faceWidth = Math.abs(rightCheek.x - leftCheek.x);
+    const faceTop = forehead.y;
+
+    // --- 1. Vertical Zones (Neoclassical Canons) ---
+    // Eyes are typically at 35-50% of face height (hairline to chin)
+    const eyeZoneTop = faceTop + faceHeight * 0.20;
+    const eyeZoneBottom = faceTop + faceHeight * 0.55; // Expanded slightly
+
+    // Define all points for each eye
+    const allRightEye = [...RIGHT_EYE_INDICES];
+    const allLeftEye = [...LEFT_EYE_INDICES];
+
+    if (kp.length > 468) {
+        allRightEye.push(...RIGHT_IRIS_INDICES);
+        allLeftEye.push(...LEFT_IRIS_INDICES);
+    }
+
+    // Helper to shift a group of points if they violate bounds
+    const enforceZone = (indices: number[], zoneTop: number, zoneBottom: number) => {
+        let minY = Infinity;
+        let maxY = -Infinity;
+        indices.forEach(idx => {
+            if (idx < kp.length) {
+                if (kp[idx].y < minY) minY = kp[idx].y;
+                if (kp[idx].y > maxY) maxY = kp[idx].y;
+            }
+        });
+
+        let shiftY = 0;
+        if (maxY > zoneBottom) {
+            shiftY = zoneBottom - maxY;
+        } else if (minY < zoneTop) {
+            shiftY = zoneTop - minY;
+        }
+
+        if (shiftY !== 0) {
+            indices.forEach(idx => {
+                 if (idx < kp.length) kp[idx].y += shiftY;
+            });
+        }
+    };
+
+    rule('eye_zone', () => {
+        enforceZone(allRightEye, eyeZoneTop, eyeZoneBottom);
+        enforceZone(allLeftEye, eyeZoneTop, eyeZoneBottom);
+    });
+
+    // --- 2. Horizontal Separation (Cyclops Prevention) ---
+    // Inner eye corners must be separated by at least ~10-12% of face width
+    rule('eye_separation', () => {
+        const rightInner = kp[133]; // Visual Left inner
+        const leftInner = kp[362];  // Visual Right inner
+
+        const minEyeSep = faceWidth * 0.12;
+        const currentSep = leftInner.x - rightInner.x;
+
+        if (currentSep < minEyeSep) {
+            const deficit = (minEyeSep - currentSep) / 2;
+            // Move right eye (visual left) to the left
+            allRightEye.forEach(idx => kp[idx].x -= deficit);
+            // Move left eye (visual right) to the right
+            allLeftEye.forEach(idx => kp[idx].x += deficit);
+        }
+    });
+
+    // --- 3. Vertical Leveling (Symmetry) ---
+    // If the eyes are only slightly misaligned vertically (<3% height), level them.
+    // This assumes the face is roughly upright (which we ensure via rotation).
+    rule('eye_leveling', () => {
+        const getMeanY = (indices: number[]) => indices.reduce((sum, idx) => sum + kp[idx].y, 0) / indices.length;
+        const rightEyeY = getMeanY(allRightEye);
+        const leftEyeY = getMeanY(allLeftEye);
+
+        if (Math.abs(rightEyeY - leftEyeY) < faceHeight * 0.03) {
+            const avgY = (rightEyeY + leftEyeY) / 2;
+            const rightShift = avgY - rightEyeY;
+            const leftShift = avgY - leftEyeY;
+
+            allRightEye.forEach(idx => kp[idx].y += rightShift);
+            allLeftEye.forEach(idx => kp[idx].y += leftShift);
+        }
+    });
+
+    // --- 4. Nose & Mouth Constraints ---
+    rule('nose_zone', () => {
+        const noseZoneBottom = faceTop + faceHeight * 0.75;
+        if (kp[1].y > noseZoneBottom) kp[1].y = noseZoneBottom;
+        // Nose tip must be below eyes
+        if (kp[1].y < eyeZoneBottom) kp[1].y = eyeZoneBottom + faceHeight * 0.05;
+    });
+
+    rule('mouth_zone', () => {
+        const mouthZoneTop = faceTop + faceHeight * 0.65;
+        if (kp[13].y < mouthZoneTop) kp[13].y = mouthZoneTop;
+    });
+
+    // --- 5. Jawline Centering (Subtle) ---
+    // Ensure chin (152) isn't wildly off-center relative to cheeks
+    rule('chin_centering', () => {
+        const midCheekX = (kp[234].x + kp[454].x) / 2;
+        if (Math.abs(kp[152].x - midCheekX) > faceWidth * 0.1) {
+            // Pull chin 50% towards center
+            kp[152].x = kp[152].x * 0.5 + midCheekX * 0.5;
+        }
+    });
+
+    return { keypoints: kp, corrections };
+}
+
+// Detected positions of the corrected points, for drawing before/after
+export function originalPositions(landmarks: Point[], corrections: LandmarkCorrection[]): Map<number, Point> {
+    const total = new Map<number, { dx: number; dy: number }>();
+    corrections.forEach(c => c.moves.forEach(({ index, dx, dy }) => {
+        const sum = total.get(index) ?? { dx: 0, dy: 0 };
+        total.set(index, { dx: sum.dx + dx, dy: sum.dy + dy });
+    }));
+
+    const original = new Map<number, Point>();
+    total.forEach(({ dx, dy }, index) => {
+        if (landmarks[index]) original.set(index, { x: landmarks[index].x - dx, y: landmarks[index].y - dy });
+    });
+    return original;
+}
@@ -0,0 +1,445 @@
+import { FaceMeasurements } from './measurements';
+import { clamp, norm } from './geometry';
+import { NormSet, DimorphicTrait, DEFAULT_NORM_SET } from './norms';
+
+/**
+ * Declarative, versioned scoring model applied to `FaceMeasurements`.
+ * Each profile is plain data so alternatives can be shipped and compared.
+ */
+
+export type Range = [number, number];
+
+export interface ScoringProfile {
+    id: string;
+    version: string;
+    label: string;
+
+    // Contribution of each category to `overall` (sums to 1)
+    weights: {
+        overall: {
+            golden_ratio: number;
+            symmetry: number;
+            harmony: number;
+            proportions: number;
+            jawline: number;
+            cheekbones: number;
+            skin_quality: number;
+        };
+        symmetry: { eye: number; cheek: number; jaw: number; lip: number };
+        jawline: { jaw_ratio: number; chin_ratio: number };
+        skin_quality: { texture: number; tone: number; redness: number; shine: number };
+        eye_score: { tilt: number; openness: number; symmetry: number };
+        nose_score: { nose_mouth: number; thirds: number };
+        harmony: { eye_score: number; nose_score: number; jawline: number; cheekbones: number };
+        dimorphism: Record<DimorphicTrait, number>;
+    };
+
+    // `norm()` ranges: value at min -> 0, value at max -> 100.
+    // Sex-dependent ranges are overridden by the selected NormSet.
+    ranges: {
+        jaw_ratio: Range;
+        chin_ratio: Range;
+        cheek_ratio: Range;
+        sharpness: Range; // Photo quality: only scores results measured before skin analysis
+        contrast: Range;
+        brightness: Range;
+        // Skin defects, lower is better: [full marks at or below, zero at or above]
+        skin_texture: Range;
+        skin_tone: Range;
+        skin_redness: Range;
+        skin_shine: Range;
+        canthal_tilt: Range;
+        eye_aspect_ratio: Range;
+    };
+
+    // Ideal targets and deviation tolerances
+    targets: {
+        golden_ratio: number;
+        golden_ratio_tolerance: number; // Deviation at which the score hits 0
+        thirds_penalty: number; // Points lost per unit of relative deviation
+        fifths_penalty: number;
+        potential_slope: number; // Overall gain per missing soft-factor point
+    };
+}
+
+// Derived 0-100 scores
+export interface FaceScores {
+    // Category Scores
+    symmetry: number;
+    golden_ratio: number;
+    proportions: number; // Thirds + Fifths
+    harmony: number; // Eyes, Nose, Lips
+    skin_quality: number;
+
+    // Detailed Metrics (0-100)
+    jawline: number;
+    cheekbones: number;
+    facial_thirds: number;
+    facial_fifths: number;
+    eye_score: number;
+    nose_score: number;
+    dimorphism: number | null; // Read against the NormSet's sex; null for neutral
+}
+
+export interface ScoredFace {
+    overall: number; // Scaled 0-10
+    potential: number; // Scaled 0-10
+    scores: FaceScores;
+    breakdown: ScoreBreakdown; // How each score and `overall` were computed
+}
+
+const PHI = 1.618; // Golden Ratio constant
+
+export const CLASSIC_V2: ScoringProfile = {
+    id: 'classic',
+    version: '2.2.0',
+    label: 'Classic',
+    weights: {
+        overall: {
+            golden_ratio: 0.25,
+            symmetry: 0.20,
+            harmony: 0.15,
+            proportions: 0.15,
+            jawline: 0.10,
+            cheekbones: 0.08,
+            skin_quality: 0.07,
+        },
+        symmetry: { eye: 0.25, cheek: 0.25, jaw: 0.25, lip: 0.25 },
+        jawline: { jaw_ratio: 0.7, chin_ratio: 0.3 },
+        skin_quality: { texture: 0.4, tone: 0.25, redness: 0.2, shine: 0.15 },
+        eye_score: { tilt: 0.4, openness: 0.3, symmetry: 0.3 },
+        nose_score: { nose_mouth: 0.5, thirds: 0.5 },
+        harmony: { eye_score: 0.3, nose_score: 0.3, jawline: 0.2, cheekbones: 0.2 },
+        dimorphism: { jaw_ratio: 0.30, chin_ratio: 0.15, cheek_ratio: 0.20, eye_aspect_ratio: 0.20, canthal_tilt: 0.15 },
+    },
+    ranges: {
+        jaw_ratio: [0.60, 0.85],
+        chin_ratio: [0.08, 0.14],
+        cheek_ratio: [0.95, 1.25],
+        sharpness: [50, 250],
+        contrast: [20, 70],
+        brightness: [80, 170],
+        skin_texture: [3, 12],
+        skin_tone: [1.5, 5],
+        skin_redness: [3, 15],
+        skin_shine: [1, 8],
+        canthal_tilt: [-2, 8],
+        eye_aspect_ratio: [0.25, 0.45],
+    },
+    targets: {
+        golden_ratio: PHI,
+        golden_ratio_tolerance: 0.5,
+        thirds_penalty: 300,
+        fifths_penalty: 300,
+        potential_slope: 0.02,
+    },
+};
+
+// Structure-first variant: bone proportions outweigh skin and soft tissue
+export const STRUCTURE_V1: ScoringProfile = {
+    ...CLASSIC_V2,
+    id: 'structure',
+    version: '1.2.0',
+    label: 'Structure',
+    weights: {
+        ...CLASSIC_V2.weights,
+        overall: {
+            golden_ratio: 0.20,
+            symmetry: 0.20,
+            harmony: 0.15,
+            proportions: 0.20,
+            jawline: 0.13,
+            cheekbones: 0.10,
+            skin_quality: 0.02,
+        },
+    },
+};
+
+export const SCORING_PROFILES: Record<string, ScoringProfile> = {
+    [CLASSIC_V2.id]: CLASSIC_V2,
+    [STRUCTURE_V1.id]: STRUCTURE_V1,
+};
+
+export const DEFAULT_SCORING_PROFILE = CLASSIC_V2;
+
+export function getScoringProfile(id?: string | null): ScoringProfile {
+    return (id && SCORING_PROFILES[id]) || DEFAULT_SCORING_PROFILE;
+}
+
+// "classic@2.0.0"
+export const formatProfileVersion = (profile: { id: string; version: string }) => `${profile.id}@${profile.version}`;
+
+// Current profile for a stored "id@version" tag (the version itself may be outdated)
+export const getScoringProfileForTag = (tag: string) => getScoringProfile(tag.split('@')[0]);
+
+export type ScoreKey = keyof FaceScores;
+
+// One measured input of a score, with the band that earns full marks
+export interface ScoreTerm {
+    key: string; // Measurement or sub-score name
+    value: number; // Raw measurement
+    ideal: [number | null, number | null]; // Full-score band, null = unbounded
+    deviation: number; // Distance from the ideal band (0 = inside)
+    score: number; // 0-100
+    weight: number; // Share within the parent score
+}
+
+export interface ScoreExplanation {
+    terms: ScoreTerm[];
+    weight: number; // Direct weight in `overall`; 0 for scores that only count through a parent score
+    contribution: number; // weight * score, in overall (0-10) points
+}
+
+// Direct contributions of the category scores, in the order `overall` is built
+export interface OverallStep {
+    key: ScoreKey;
+    score: number;
+    weight: number;
+    contribution: number; // In overall (0-10) points
+}
+
+export interface ScoreBreakdown {
+    scores: Record<ScoreKey, ScoreExplanation>;
+    overall: OverallStep[];
+    rounding: number; // overall - sum of contributions (rounding and clamping)
+}
+
+const normRange = (x: number, range: Range) => norm(x, range[0], range[1]);
+
+// Term for a `norm()` range: full marks at or beyond the top of the range
+function normTerm(key: string, value: number, range: Range, weight: number): ScoreTerm {
+    return {
+        key,
+        value,
+        ideal: [range[1], null],
+        deviation: Math.max(0, range[1] - value),
+        score: normRange(value, range),
+        weight,
+    };
+}
+
+// Term for a defect measure: full marks at or below range[0], zero at range[1]
+function inverseNormTerm(key: string, value: number, range: Range, weight: number): ScoreTerm {
+    return {
+        key,
+        value,
+        ideal: [null, range[0]],
+        deviation: Math.max(0, value - range[0]),
+        score: 100 - normRange(value, range),
+        weight,
+    };
+}
+
+// Term for a fixed target: full marks on target, zero at `tolerance` away
+function targetTerm(key: string, value: number, target: number, tolerance: number, weight: number): ScoreTerm {
+    const deviation = Math.abs(value - target);
+    return {
+        key,
+        value,
+        ideal: [target, target],
+        deviation,
+        score: clamp(Math.max(0, (1 - deviation / tolerance)) * 100, 0, 100),
+        weight,
+    };
+}
+
+// Term for a sub-score feeding a composite score
+function scoreTerm(key: string, value: number, weight: number): ScoreTerm {
+    return { key, value, ideal: [100, null], deviation: 100 - value, score: value, weight };
+}
+
+// Term for how evenly a set of segments splits a length (value = max relative deviation)
+function evennessTerm(key: string, segments: number[], penalty: number): ScoreTerm {
+    const avg = segments.reduce((sum, s) => sum + s, 0) / segments.length;
+    const maxDev = Math.max(...segments.map(s => Math.abs(s - avg))) / avg;
+    return {
+        key,
+        value: maxDev,
+        ideal: [null, 0],
+        deviation: maxDev,
+        score: Math.round(Math.max(0, 100 - maxDev * penalty)),
+        weight: 1,
+    };
+}
+
+// Skin quality weights of results measured before skin analysis (classic@2.1.0)
+const LEGACY_SKIN_WEIGHTS = { sharpness: 0.5, contrast: 0.3, brightness: 0.2 };
+
+const composite = (terms: ScoreTerm[]) => Math.round(terms.reduce((sum, term) => sum + term.weight * term.score, 0));
+
+// Dimorphic traits placed between the population's female (25) and male (75) means
+function dimorphismTerms(m: FaceMeasurements, norms: NormSet, weights: Record<DimorphicTrait, number>): ScoreTerm[] {
+    const values: Record<DimorphicTrait, number> = {
+        jaw_ratio: m.ratios.jaw_ratio,
+        chin_ratio: m.ratios.chin_ratio,
+        cheek_ratio: m.ratios.cheek_ratio,
+        eye_aspect_ratio: m.ratios.eye_aspect_ratio,
+        canthal_tilt: m.angles.canthal_tilt,
+    };
+    const traits = Object.keys(values) as DimorphicTrait[];
+    return traits.map(trait => {
+        const ref = norms.dimorphism[trait];
+        const position = (values[trait] - ref.female) / (ref.male - ref.female);
+        const masculine = clamp(25 + position * 50, 0, 100);
+        const target = norms.sex === 'female' ? ref.female : ref.male;
+        return {
+            key: trait,
+            value: values[trait],
+            ideal: [target, target],
+            deviation: Math.abs(values[trait] - target),
+            score: norms.sex === 'female' ? 100 - masculine : masculine,
+            weight: weights[trait],
+        };
+    });
+}
+
+export function scoreFace(
+    m: FaceMeasurements,
+    profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+    norms: NormSet = DEFAULT_NORM_SET
+): ScoredFace {
+    const { weights: w, targets: t } = profile;
+    const r = { ...profile.ranges, ...norms.ranges };
+    const terms = {} as Record<ScoreKey, ScoreTerm[]>;
+
+    // Jawline score
+    terms.jawline = [
+        normTerm('jaw_ratio', m.ratios.jaw_ratio, r.jaw_ratio, w.jawline.jaw_ratio),
+        normTerm('chin_ratio', m.ratios.chin_ratio, r.chin_ratio, w.jawline.chin_ratio),
+    ];
+    const jawline = composite(terms.jawline);
+
+    // Cheekbones score
+    terms.cheekbones = [normTerm('cheek_ratio', m.ratios.cheek_ratio, r.cheek_ratio, 1)];
+    const cheekbones = composite(terms.cheekbones);
+
+    // Skin Quality score, from the face's own skin
+    if (m.skin) {
+        const skin = m.skin.overall;
+        terms.skin_quality = [
+            inverseNormTerm('skin_texture', skin.texture, r.skin_texture, w.skin_quality.texture),
+            inverseNormTerm('skin_tone', skin.tone, r.skin_tone, w.skin_quality.tone),
+            inverseNormTerm('skin_redness', skin.redness, r.skin_redness, w.skin_quality.redness),
+            inverseNormTerm('skin_shine', skin.shine, r.skin_shine, w.skin_quality.shine),
+        ];
+    } else {
+        // Stored before skin analysis: image-wide photo quality (brightness scores best mid-range)
+        const brightMid = (r.brightness[0] + r.brightness[1]) / 2;
+        terms.skin_quality = [
+            normTerm('sharpness', m.quality.sharpness, r.sharpness, LEGACY_SKIN_WEIGHTS.sharpness),
+            normTerm('contrast', m.quality.contrast, r.contrast, LEGACY_SKIN_WEIGHTS.contrast),
+            targetTerm('brightness', m.quality.brightness, brightMid, (r.brightness[1] - r.brightness[0]) / 2, LEGACY_SKIN_WEIGHTS.brightness),
+        ];
+    }
+    const skin_quality = composite(terms.skin_quality);
+
+    // Symmetry score
+    terms.symmetry = [
+        scoreTerm('eye_symmetry', m.symmetry.eye, w.symmetry.eye),
+        scoreTerm('cheek_symmetry', m.symmetry.cheek, w.symmetry.cheek),
+        scoreTerm('jaw_symmetry', m.symmetry.jaw, w.symmetry.jaw),
+        scoreTerm('lip_symmetry', m.symmetry.lip, w.symmetry.lip),
+    ];
+    const symmetry = composite(terms.symmetry);
+
+    // Golden Ratio score
+    const faceRatioTerm = targetTerm('face_ratio', m.ratios.face_ratio, t.golden_ratio, t.golden_ratio_tolerance, 0.5);
+    const noseMouthTerm = targetTerm('mouth_nose_ratio', m.ratios.mouth_nose_ratio, t.golden_ratio, t.golden_ratio_tolerance, 0.5);
+    terms.golden_ratio = [faceRatioTerm, noseMouthTerm];
+    const golden_ratio = composite(terms.golden_ratio);
+
+    // Thirds & Fifths
+    terms.facial_thirds = [evennessTerm('thirds_deviation', m.distances.thirds, t.thirds_penalty)];
+    terms.facial_fifths = [evennessTerm('fifths_deviation', m.distances.fifths, t.fifths_penalty)];
+    const facial_thirds = composite(terms.facial_thirds);
+    const facial_fifths = composite(terms.facial_fifths);
+    terms.proportions = [
+        scoreTerm('facial_thirds', facial_thirds, 0.5),
+        scoreTerm('facial_fifths', facial_fifths, 0.5),
+    ];
+    const proportions = composite(terms.proportions);
+
+    // Eye Score: Tilt + EAR + Symmetry
+    // Positive tilt is good (Hunter eyes), Neutral is okay. Negative is "prey".
+    terms.eye_score = [
+        normTerm('canthal_tilt', m.angles.canthal_tilt, r.canthal_tilt, w.eye_score.tilt),
+        normTerm('eye_aspect_ratio', m.ratios.eye_aspect_ratio, r.eye_aspect_ratio, w.eye_score.openness),
+        scoreTerm('eye_symmetry', m.symmetry.eye, w.eye_score.symmetry),
+    ];
+    const eye_score = composite(terms.eye_score);
+
+    // Nose Score: Golden Ratio + Thirds contribution
+    terms.nose_score = [
+        { ...noseMouthTerm, weight: w.nose_score.nose_mouth },
+        scoreTerm('facial_thirds', facial_thirds, w.nose_score.thirds),
+    ];
+    const nose_score = composite(terms.nose_score);
+
+    terms.harmony = [
+        scoreTerm('eye_score', eye_score, w.harmony.eye_score),
+        scoreTerm('nose_score', nose_score, w.harmony.nose_score),
+        scoreTerm('jawline', jawline, w.harmony.jawline),
+        scoreTerm('cheekbones', cheekbones, w.harmony.cheekbones),
+    ];
+    const harmony = composite(terms.harmony);
+
+    // Sexual Dimorphism: how strongly the face expresses the selected set's traits
+    terms.dimorphism = norms.sex === 'neutral' ? [] : dimorphismTerms(m, norms, w.dimorphism);
+    const dimorphism = norms.sex === 'neutral' ? null : composite(terms.dimorphism);
+
+    const scores: FaceScores = {
+        symmetry,
+        golden_ratio,
+        proportions,
+        harmony,
+        skin_quality,
+        jawline,
+        cheekbones,
+        facial_thirds,
+        facial_fifths,
+        eye_score,
+        nose_score,
+        dimorphism,
+    };
+
+    // Calculate Final Overall Score
+    // Weighted Average
+    const steps: OverallStep[] = (Object.keys(w.overall) as (keyof typeof w.overall)[]).map(key => ({
+        key,
+        score: scores[key] as number,
+        weight: w.overall[key],
+        contribution: (w.overall[key] * (scores[key] as number)) / 10,
+    }));
+    const weightedSum = steps.reduce((sum, step) => sum + step.weight * step.score, 0);
+
+    const overall = Math.round(clamp(weightedSum / 10, 0, 10));
+
+    // Potential: How much can be improved?
+    // Based on Skin Quality (easiest to fix) and some soft tissue (fat).
+    // Bone structure (Golden Ratio, Symmetry) is hard to fix.
+    const softFactors = (skin_quality + cheekbones) / 2;
+    const potential = Math.round(clamp(overall + (100 - softFactors) * t.potential_slope, overall, 10));
+
+    // Direct weights only, so the contributions plus `rounding` add up to `overall` like the
+    // waterfall; sub-scores (eye, nose, thirds, fifths) count through their parent score
+    const explanations = {} as Record<ScoreKey, ScoreExplanation>;
+    (Object.keys(scores) as ScoreKey[]).forEach(key => {
+        const weight = (w.overall as Partial<Record<ScoreKey, number>>)[key] ?? 0;
+        explanations[key] = {
+            terms: terms[key],
+            weight,
+            contribution: (weight * (scores[key] ?? 0)) / 10,
+        };
+    });
+
+    return {
+        overall,
+        potential,
+        scores,
+        breakdown: {
+            scores: explanations,
+            overall: steps,
+            rounding: overall - weightedSum / 10,
+        },
+    };
+}
@@ -0,0 +1,207 @@
+import { analyzeFace, scoreMeasurements, AnalysisResult, AnalyzeOptions } from './analyzeFace';
+import { FaceMeasurements } from './measurements';
+import { ImageInput } from './detector';
+import { scoreFace, DEFAULT_SCORING_PROFILE, ScoreKey } from './scoring';
+import { DEFAULT_NORM_SET } from './norms';
+import { AnalysisCancelledError, SeriesError } from './errors';
+
+/**
+ * Multi-photo analysis: every photo is measured separately, outliers are dropped
+ * and the median measurement set is scored once, with bootstrap confidence intervals.
+ */
+
+export const MIN_SERIES_PHOTOS = 3;
+export const MAX_SERIES_PHOTOS = 10;
+
+export interface SeriesPhoto {
+    index: number;
+    status: 'used' | 'outlier' | 'failed';
+    overall?: number;
+    error?: string;
+}
+
+export type ScoreInterval = [number, number];
+
+export interface SeriesAnalysisResult {
+    result: AnalysisResult; // Scored from the median measurements
+    representative: number; // Index of the photo closest to the median (used for landmarks)
+    photos: SeriesPhoto[];
+    confidence: number; // Interval coverage, e.g. 0.95
+    intervals: Partial<Record<ScoreKey | 'overall', ScoreInterval>>;
+}
+
+export interface SeriesOptions extends AnalyzeOptions {
+    onProgress?: (done: number, total: number) => void;
+}
+
+// A measurement is an outlier past this modified z-score (Iglewicz & Hoaglin)
+const OUTLIER_Z = 3.5;
+// A photo is rejected when more than this share of its measurements are outliers
+const MAX_OUTLIER_SHARE = 0.25;
+const BOOTSTRAP_SAMPLES = 200;
+const CONFIDENCE = 0.95;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const percentile = (sorted: number[], p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+
+// Flattens nested numeric leaves ("ratios.jaw_ratio", "distances.thirds.0", ...)
+function flatten(value: unknown, prefix = '', out: Record<string, number> = {}): Record<string, number> {
+    if (typeof value === 'number') {
+        out[prefix] = value;
+    } else if (value && typeof value === 'object') {
+        Object.entries(value as Record<string, unknown>).forEach(([key, child]) =>
+            flatten(child, prefix ? `${prefix}.${key}` : key, out)
+        );
+    }
+    return out;
+}
+
+// Element-wise median across measurement sets with the same shape
+function medianOf<T>(items: T[]): T {
+    const first = items[0] as unknown;
+    if (typeof first === 'number') return median(items as unknown as number[]) as unknown as T;
+    if (Array.isArray(first)) {
+        return first.map((_, i) => medianOf(items.map(item => (item as unknown as unknown[])[i]))) as unknown as T;
+    }
+    if (first && typeof first === 'object') {
+        const out: Record<string, unknown> = {};
+        Object.keys(first).forEach(key => {
+            out[key] = medianOf(items.map(item => (item as unknown as Record<string, unknown>)[key]));
+        });
+        return out as T;
+    }
+    return first as T;
+}
+
+// Deterministic PRNG so the same photos always yield the same intervals
+function mulberry32(seed: number) {
+    return () => {
+        seed |= 0;
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Robust z-scores of each photo's face geometry against the group. Camera distance
+// (ipd_px), photo quality and skin change with the shot, not the face: they don't count.
+function outlierShares(sets: FaceMeasurements[]): { share: number; distance: number }[] {
+    const flat = sets.map(({ ratios, angles, symmetry }) => flatten({ ratios, angles, symmetry }));
+    const keys = Object.keys(flat[0]);
+    const stats = keys.map(key => {
+        const values = flat.map(f => f[key]);
+        const med = median(values);
+        const mad = median(values.map(v => Math.abs(v - med)));
+        return { key, med, mad };
+    });
+
+    return flat.map(f => {
+        let outliers = 0;
+        let distance = 0;
+        stats.forEach(({ key, med, mad }) => {
+            if (mad === 0) return;
+            const z = (0.6745 * (f[key] - med)) / mad;
+            if (Math.abs(z) > OUTLIER_Z) outliers++;
+            distance += Math.abs(z);
+        });
+        return { share: outliers / stats.length, distance };
+    });
+}
+
+interface SeriesAggregate extends Omit<SeriesAnalysisResult, 'photos'> {
+    used: number[]; // Indices into the aggregated results
+}
+
+function aggregateSeries(results: AnalysisResult[], options: AnalyzeOptions = {}): SeriesAggregate {
+    const { scoringProfile = DEFAULT_SCORING_PROFILE, norms = DEFAULT_NORM_SET } = options;
+
+    const shares = outlierShares(results.map(r => r.measurements));
+    const inliers = results.map((_, i) => i).filter(i => shares[i].share <= MAX_OUTLIER_SHARE);
+    // Photos disagree across the board: nothing to reject against
+    const used = inliers.length > 0 ? inliers : results.map((_, i) => i);
+    const kept = used.map(i => results[i].measurements);
+
+    const representative = used.reduce((best, i) => (shares[i].distance < shares[best].distance ? i : best), used[0]);
+    const scored = scoreMeasurements(medianOf(kept), results[representative].landmarks, options);
+    const result = {
+        ...scored,
+        pose: results[representative].pose,
+        regularization: results[representative].regularization,
+        quality_gate: results[representative].quality_gate,
+        expression: results[representative].expression,
+        // Any kept photo's warning applies to the median built from it
+        warnings: Array.from(new Set([...scored.warnings, ...used.flatMap(i => results[i].warnings)])),
+    };
+
+    // Bootstrap: resample the kept photos, re-score their median
+    const random = mulberry32(kept.length * 7919 + Math.round(result.measurements.ipd_px * 1000));
+    const samples: Record<string, number[]> = {};
+    for (let b = 0; b < BOOTSTRAP_SAMPLES; b++) {
+        const resample = kept.map(() => kept[Math.floor(random() * kept.length)]);
+        const { overall, scores } = scoreFace(medianOf(resample), scoringProfile, norms);
+        Object.entries({ overall, ...scores }).forEach(([key, value]) => {
+            if (value === null) return;
+            (samples[key] = samples[key] || []).push(value);
+        });
+    }
+
+    const alpha = (1 - CONFIDENCE) / 2;
+    const intervals: SeriesAnalysisResult['intervals'] = {};
+    Object.entries(samples).forEach(([key, values]) => {
+        const sorted = values.sort((a, b) => a - b);
+        intervals[key as ScoreKey | 'overall'] = [percentile(sorted, alpha), percentile(sorted, 1 - alpha)];
+    });
+
+    return { result, representative, used, confidence: CONFIDENCE, intervals };
+}
+
+export async function analyzeFaceSeries(
+    images: ImageInput[],
+    { onProgress, ...options }: SeriesOptions = {}
+): Promise<SeriesAnalysisResult> {
+    if (images.length < MIN_SERIES_PHOTOS || images.length > MAX_SERIES_PHOTOS) {
+        throw new SeriesError('SERIES_SIZE');
+    }
+
+    // Sequential: the detector is a shared singleton
+    const analyzed: (AnalysisResult | Error)[] = [];
+    for (let i = 0; i < images.length; i++) {
+        try {
+            analyzed.push(await analyzeFace(images[i], options));
+        } catch (e) {
+            if (e instanceof AnalysisCancelledError) throw e;
+            analyzed.push(e instanceof Error ? e : new Error(String(e)));
+        }
+        onProgress?.(i + 1, images.length);
+    }
+
+    const succeeded = analyzed
+        .map((r, index) => ({ r, index }))
+        .filter((x): x is { r: AnalysisResult; index: number } => !(x.r instanceof Error));
+
+    if (succeeded.length < MIN_SERIES_PHOTOS) {
+        throw new SeriesError('SERIES_TOO_FEW_FACES');
+    }
+
+    const { used, representative, ...aggregate } = aggregateSeries(succeeded.map(s => s.r), options);
+    const usedIndices = new Set(used.map(i => succeeded[i].index));
+
+    const photos: SeriesPhoto[] = analyzed.map((r, index) =>
+        r instanceof Error
+            ? { index, status: 'failed', error: r.message }
+            : { index, status: usedIndices.has(index) ? 'used' : 'outlier', overall: r.overall }
+    );
+
+    return {
+        ...aggregate,
+        representative: succeeded[representative].index,
+        photos,
+    };
+}
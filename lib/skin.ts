@@ -0,0 +1,206 @@
+import { createCanvas, getContext2D, DrawableImage } from './canvas';
+import { dist, Point } from './geometry';
+import { INDICES } from './visualize';
+
+/**
+ * Skin analysis on the face itself: the face oval minus eyes, brows and lips,
+ * split into forehead, cheeks and chin. Independent of photo quality, which is
+ * measured over the whole image in `quality.ts`.
+ */
+
+export type SkinRegion = 'forehead' | 'cheeks' | 'chin';
+
+export interface SkinRegionMetrics {
+    texture: number; // RMS Laplacian of luminance at a fixed face scale (0-255 units)
+    tone: number; // Std of the redness index, i.e. blotchy / uneven tone
+    redness: number; // % of pixels clearly redder than the face's own median
+    shine: number; // % of bright, desaturated (specular) pixels
+    pixels: number; // Skin pixels measured, at the fixed face scale
+}
+
+export interface SkinMetrics {
+    overall: SkinRegionMetrics; // Every skin pixel, including the nose
+    regions: Record<SkinRegion, SkinRegionMetrics>;
+}
+
+// Face crops are resampled to this width so texture is comparable across photos
+const FACE_WIDTH = 256;
+// Exclusion margins around features, as a share of face width
+const EYE_MARGIN = 0.05;
+const BROW_MARGIN = 0.06;
+const LIP_MARGIN = 0.03;
+// Redness index points above the face median that count as a red patch
+const RED_PATCH = 3;
+// Luminance z-score above which a desaturated pixel counts as shine
+const SHINE_Z = 2;
+const SHINE_MAX_CHROMA = 40;
+
+const REGIONS: SkinRegion[] = ['forehead', 'cheeks', 'chin'];
+
+// Face-oval bounding box resampled to a fixed width, with landmarks in crop pixels
+export interface FaceCrop {
+    width: number;
+    height: number;
+    pixels: Uint8ClampedArray; // RGBA
+    kp: (idx: number) => Point;
+}
+
+export function cropFace(img: DrawableImage, keypoints: Point[], width = FACE_WIDTH): FaceCrop {
+    const oval = INDICES.FACE_OVAL.map(i => keypoints[i]);
+    const minX = Math.min(...oval.map(p => p.x)), maxX = Math.max(...oval.map(p => p.x));
+    const minY = Math.min(...oval.map(p => p.y)), maxY = Math.max(...oval.map(p => p.y));
+    const scale = width / Math.max(1, maxX - minX);
+    const height = Math.max(1, Math.round((maxY - minY) * scale));
+
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2D(canvas, { willReadFrequently: true });
+    ctx.drawImage(img, minX, minY, maxX - minX, maxY - minY, 0, 0, width, height);
+    return {
+        width,
+        height,
+        pixels: ctx.getImageData(0, 0, width, height).data,
+        kp: idx => ({ x: (keypoints[idx].x - minX) * scale, y: (keypoints[idx].y - minY) * scale }),
+    };
+}
+
+// 1 inside the face oval; with `skinOnly`, eyes, brows and lips are cut out with a margin
+export function faceMask({ width: w, height: h, kp }: FaceCrop, skinOnly: boolean): Uint8Array {
+    const maskCanvas = createCanvas(w, h);
+    const mask = getContext2D(maskCanvas, { willReadFrequently: true });
+    const path = (indices: number[]) => {
+        mask.beginPath();
+        indices.forEach((idx, n) => {
+            const p = kp(idx);
+            if (n === 0) mask.moveTo(p.x, p.y);
+            else mask.lineTo(p.x, p.y);
+        });
+    };
+    mask.lineJoin = 'round';
+    mask.lineCap = 'round';
+    mask.fillStyle = '#FFF';
+    path(INDICES.FACE_OVAL);
+    mask.fill();
+
+    mask.globalCompositeOperation = 'destination-out';
+    const cutOut = (indices: number[], margin: number, fill: boolean) => {
+        path(indices);
+        if (fill) mask.fill();
+        mask.lineWidth = margin * w;
+        mask.stroke();
+    };
+    if (skinOnly) {
+        cutOut(INDICES.EYE_LEFT, EYE_MARGIN, true);
+        cutOut(INDICES.EYE_RIGHT, EYE_MARGIN, true);
+        cutOut(INDICES.EYEBROW_LEFT, BROW_MARGIN, false);
+        cutOut(INDICES.EYEBROW_RIGHT, BROW_MARGIN, false);
+        cutOut(INDICES.LIPS_OUTER, LIP_MARGIN, true);
+    }
+    const alpha = mask.getImageData(0, 0, w, h).data;
+    const inside = new Uint8Array(w * h);
+    for (let i = 0; i < inside.length; i++) inside[i] = alpha[i * 4 + 3] >= 128 ? 1 : 0;
+    return inside;
+}
+
+// Face coordinates: `along` the forehead -> chin axis (0 at 10, 1 at 152) and
+// signed distance `across` it in crop pixels (positive on the visual right)
+export function faceAxis({ kp }: FaceCrop) {
+    const top = kp(10), chin = kp(152);
+    const axisLen = Math.max(1, dist(top, chin));
+    const ax = (chin.x - top.x) / axisLen, ay = (chin.y - top.y) / axisLen;
+    return {
+        along: (p: Point) => ((p.x - top.x) * ax + (p.y - top.y) * ay) / axisLen,
+        across: (p: Point) => (p.x - top.x) * ay - (p.y - top.y) * ax,
+    };
+}
+
+export function analyzeSkin(img: DrawableImage, keypoints: Point[]): SkinMetrics {
+    const crop = cropFace(img, keypoints);
+    const { width: w, height: h, pixels, kp } = crop;
+    const inMask = faceMask(crop, true);
+
+    // Regions in face coordinates
+    const { along, across } = faceAxis(crop);
+    const browLine = Math.max(...[...INDICES.EYEBROW_LEFT, ...INDICES.EYEBROW_RIGHT].map(i => along(kp(i))));
+    const eyeLine = Math.max(along(kp(145)), along(kp(374)));
+    const chinLine = along(kp(17));
+    const mouthHalf = dist(kp(61), kp(291)) / 2;
+
+    const regionOf = (x: number, y: number): number => {
+        const p = { x, y };
+        const t = along(p);
+        if (t < browLine) return 0;
+        if (t > chinLine) return 2;
+        if (t > eyeLine && Math.abs(across(p)) > mouthHalf) return 1;
+        return -1; // Nose and mouth surroundings: face-wide stats only
+    };
+
+    // Pass 1: per-pixel luminance and redness index inside the mask
+    const count = w * h;
+    const lum = new Float32Array(count);
+    const red = new Float32Array(count);
+    const chroma = new Float32Array(count);
+    const skinRed: number[] = [];
+    let sum = 0, sumSq = 0;
+    for (let i = 0; i < count; i++) {
+        if (!inMask[i]) continue;
+        const r = pixels[i * 4], g = pixels[i * 4 + 1], b = pixels[i * 4 + 2];
+        lum[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+        red[i] = ((r - g) / Math.max(1, r + g + b)) * 100;
+        chroma[i] = Math.max(r, g, b) - Math.min(r, g, b);
+        skinRed.push(red[i]);
+        sum += lum[i];
+        sumSq += lum[i] * lum[i];
+    }
+    const total = skinRed.length;
+    const mean = sum / Math.max(1, total);
+    const std = Math.sqrt(Math.max(0, sumSq / Math.max(1, total) - mean * mean));
+    skinRed.sort((a, b) => a - b);
+    const medianRed = total > 0 ? skinRed[Math.floor(total / 2)] : 0;
+
+    // Pass 2: accumulate per region (index 3 = whole face)
+    const acc = [0, 1, 2, 3].map(() => ({ lapSq: 0, lapN: 0, red: 0, redSq: 0, patches: 0, shine: 0, n: 0 }));
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            const i = y * w + x;
+            if (!inMask[i]) continue;
+            const region = regionOf(x, y);
+            const targets = region >= 0 ? [acc[region], acc[3]] : [acc[3]];
+
+            // Laplacian only where the whole kernel is skin, so mask edges add no texture
+            const interior = x > 0 && y > 0 && x < w - 1 && y < h - 1 &&
+                inMask[i - 1] && inMask[i + 1] && inMask[i - w] && inMask[i + w];
+            const lap = interior ? lum[i - w] + lum[i - 1] + lum[i + 1] + lum[i + w] - 4 * lum[i] : 0;
+            const patch = red[i] - medianRed > RED_PATCH;
+            const shiny = std > 0 && (lum[i] - mean) / std > SHINE_Z && chroma[i] < SHINE_MAX_CHROMA;
+
+            targets.forEach(a => {
+                a.n++;
+                a.red += red[i];
+                a.redSq += red[i] * red[i];
+                if (interior) {
+                    a.lapSq += lap * lap;
+                    a.lapN++;
+                }
+                if (patch) a.patches++;
+                if (shiny) a.shine++;
+            });
+        }
+    }
+
+    const summarize = (a: typeof acc[number]): SkinRegionMetrics => {
+        const n = Math.max(1, a.n);
+        const redMean = a.red / n;
+        return {
+            texture: Math.sqrt(a.lapSq / Math.max(1, a.lapN)),
+            tone: Math.sqrt(Math.max(0, a.redSq / n - redMean * redMean)),
+            redness: (a.patches / n) * 100,
+            shine: (a.shine / n) * 100,
+            pixels: a.n,
+        };
+    };
+
+    return {
+        overall: summarize(acc[3]),
+        regions: Object.fromEntries(REGIONS.map((region, i) => [region, summarize(acc[i])])) as Record<SkinRegion, SkinRegionMetrics>,
+    };
+}
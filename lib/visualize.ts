@@ -1,10 +1,16 @@
+import * as faceLandmarksDetection from '@tensorflow-models/face-landmarks-detection';
+import { LandmarkCorrection, originalPositions } from './regularization';
+import { FaceMeasurements } from './measurements';
+import { calculateAngle, dist, FaceBox, Point } from './geometry';
+import type { Translator } from './i18n';
+
 /**
  * Utility to visualize facial analysis metrics on a canvas
  * Updated with new color scheme and drawing logic
  */
 
-// Indices for drawing
-const INDICES = {
+// Indices for drawing (also the skin mask in `skin.ts`)
+export const INDICES = {
     FACE_OVAL: [
         10, 338, 297, 332, 284, 251, 389, 356, 454, 323, 361, 288, 397, 365, 379, 378, 400, 377, 152, 
         148, 176, 149, 150, 136, 172, 58, 132, 93, 234, 127, 162, 21, 54, 103, 67, 109, 10
@@ -32,18 +38,147 @@ const INDICES = {
     ]
 };
 
-// Minimalist / Tech Color Scheme
-const COLORS = {
-    oval: 'rgba(255, 255, 255, 0.4)',
-    features: 'rgba(255, 255, 255, 0.2)',
-    eyes: '#00F0FF',          // Cyan Accent
-    iris: '#FFFFFF',          // White
-    lips: 'rgba(255, 255, 255, 0.4)',
-    centerLine: 'rgba(255, 255, 255, 0.1)',
-    tiltLine: '#FF0055',      // Red for angles
-    connections: 'rgba(255, 255, 255, 0.05)', // Very subtle mesh
+// Optional layers, each tied to the measurement it visualizes
+export type OverlayLayer = 'mesh' | 'thirds' | 'golden' | 'symmetry' | 'jaw' | 'iris';
+export type OverlayLayers = Partial<Record<OverlayLayer, boolean>>;
+
+export type OverlayTheme = 'tech' | 'contrast' | 'mono';
+
+type Palette = Record<
+    'oval' | 'features' | 'eyes' | 'iris' | 'lips' | 'centerLine' | 'tiltLine' | 'correction' | 'label' | 'labelBackground',
+    string
+> & { layers: Record<OverlayLayer, string> };
+
+export const OVERLAY_THEMES: Record<OverlayTheme, Palette> = {
+    // Minimalist / Tech Color Scheme
+    tech: {
+        oval: 'rgba(255, 255, 255, 0.4)',
+        features: 'rgba(255, 255, 255, 0.2)',
+        eyes: '#00F0FF',          // Cyan Accent
+        iris: '#FFFFFF',          // White
+        lips: 'rgba(255, 255, 255, 0.4)',
+        centerLine: 'rgba(255, 255, 255, 0.1)',
+        tiltLine: '#FF0055',      // Red for angles
+        correction: '#FFB800',    // Amber for regularization moves
+        label: '#FFFFFF',
+        labelBackground: 'rgba(0, 0, 0, 0.6)',
+        layers: {
+            mesh: 'rgba(255, 255, 255, 0.15)',
+            thirds: '#7CFFB2',
+            golden: '#FFD700',
+            symmetry: '#B388FF',
+            jaw: '#FF0055',
+            iris: '#00F0FF',
+        },
+    },
+    // Saturated strokes that survive bright or busy photos
+    contrast: {
+        oval: '#FFFFFF',
+        features: 'rgba(255, 255, 255, 0.7)',
+        eyes: '#00FFFF',
+        iris: '#FFFF00',
+        lips: '#FFFFFF',
+        centerLine: 'rgba(255, 255, 255, 0.6)',
+        tiltLine: '#FF2D55',
+        correction: '#FF9500',
+        label: '#000000',
+        labelBackground: 'rgba(255, 255, 255, 0.9)',
+        layers: {
+            mesh: 'rgba(255, 255, 255, 0.35)',
+            thirds: '#00FF66',
+            golden: '#FFCC00',
+            symmetry: '#FF00FF',
+            jaw: '#FF2D55',
+            iris: '#00FFFF',
+        },
+    },
+    // Single white ink for screenshots and prints
+    mono: {
+        oval: 'rgba(255, 255, 255, 0.6)',
+        features: 'rgba(255, 255, 255, 0.3)',
+        eyes: 'rgba(255, 255, 255, 0.8)',
+        iris: '#FFFFFF',
+        lips: 'rgba(255, 255, 255, 0.5)',
+        centerLine: 'rgba(255, 255, 255, 0.2)',
+        tiltLine: 'rgba(255, 255, 255, 0.8)',
+        correction: '#FFFFFF',
+        label: '#FFFFFF',
+        labelBackground: 'rgba(0, 0, 0, 0.6)',
+        layers: {
+            mesh: 'rgba(255, 255, 255, 0.12)',
+            thirds: 'rgba(255, 255, 255, 0.7)',
+            golden: 'rgba(255, 255, 255, 0.7)',
+            symmetry: 'rgba(255, 255, 255, 0.7)',
+            jaw: 'rgba(255, 255, 255, 0.7)',
+            iris: 'rgba(255, 255, 255, 0.7)',
+        },
+    },
 };
 
+export interface OverlayLayerInfo {
+    id: OverlayLayer;
+    metric: string; // Field of `AnalysisResult` the layer draws
+    value: (m: FaceMeasurements, i18n: Translator) => string;
+}
+
+type NumberFormat = Translator['number'];
+
+// Canvases drawn without a translator (thumbnails, exports) still get plain numbers
+const plainNumber: NumberFormat = (value, digits = 0) => value.toFixed(digits);
+
+const pct = (x: number, number: NumberFormat) => `${number(x * 100)}%`;
+const shares = (parts: number[], { number }: Translator) => {
+    const total = parts.reduce((a, b) => a + b, 0);
+    return parts.map(x => pct(x / total, number)).join(' / ');
+};
+
+// Legend entries, in toggle order; names and units come from the UI catalogs
+export const OVERLAY_LAYERS: OverlayLayerInfo[] = [
+    { id: 'mesh', metric: 'landmarks', value: (_, { t, number }) => t.overlay.values.points(number(478)) },
+    {
+        id: 'thirds',
+        metric: 'measurements.distances.thirds, .fifths',
+        value: (m, i18n) => `${shares(m.distances.thirds, i18n)} • ${shares(m.distances.fifths, i18n)}`,
+    },
+    { id: 'golden', metric: 'measurements.ratios.face_ratio', value: (m, { number }) => `${number(m.ratios.face_ratio, 2)} (φ ${number(1.62, 2)})` },
+    {
+        id: 'symmetry',
+        metric: 'measurements.symmetry',
+        value: (m, { t, number }) =>
+            (['eye', 'cheek', 'jaw', 'lip'] as const).map(k => `${t.overlay.values.symmetry[k]} ${number(m.symmetry[k])}%`).join(' • '),
+    },
+    {
+        id: 'jaw',
+        metric: 'measurements.angles.jaw_angle_left, _right',
+        value: (m, { number }) => `${number(m.angles.jaw_angle_right)}° / ${number(m.angles.jaw_angle_left)}°`,
+    },
+    { id: 'iris', metric: 'measurements.ipd_px', value: (m, { t, number }) => t.overlay.values.px(number(m.ipd_px)) },
+];
+
+export interface DrawOptions {
+    layers?: OverlayLayers;
+    theme?: OverlayTheme;
+    // Layer labels: values from the measurements, worded and formatted like the legend; unlabeled without both
+    measurements?: FaceMeasurements;
+    i18n?: Translator;
+    corrections?: LandmarkCorrection[]; // Regularization to audit: detected -> final points
+}
+
+// Bilateral pairs `measureFace` compares, visual left point first
+const SYMMETRY_PAIRS: [number, number, keyof FaceMeasurements['symmetry']][] = [
+    [33, 263, 'eye'],
+    [123, 352, 'cheek'],
+    [172, 397, 'jaw'],
+    [61, 291, 'lip'],
+];
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+// Tessellation edges of the face mesh, built on first use
+let meshEdges: number[][] | null = null;
+const getMeshEdges = () =>
+    (meshEdges ??= faceLandmarksDetection.util.getAdjacentPairs(faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh));
+
 const SIZES = {
     main: 2,
     key: 4
@@ -53,9 +188,11 @@ export function drawAnalysis(
     ctx: CanvasRenderingContext2D,
     landmarks: { x: number; y: number }[],
     width: number,
-    height: number
+    height: number,
+    { layers = {}, theme = 'tech', measurements, i18n, corrections }: DrawOptions = {}
 ) {
     if (!landmarks || landmarks.length === 0) return;
+    const COLORS = OVERLAY_THEMES[theme];
 
     // Helper to get point
     const p = (idx: number) => landmarks[idx];
@@ -68,9 +205,18 @@ export function drawAnalysis(
     ctx.lineJoin = 'round';
 
     // 1. Draw Mesh Connections (Very Subtle)
-    ctx.strokeStyle = COLORS.connections;
-    ctx.lineWidth = 0.5;
-    
+    if (layers.mesh) {
+        ctx.strokeStyle = COLORS.layers.mesh;
+        ctx.lineWidth = 0.5;
+        ctx.beginPath();
+        getMeshEdges().forEach(([a, b]) => {
+            if (!p(a) || !p(b)) return;
+            ctx.moveTo(p(a).x, p(a).y);
+            ctx.lineTo(p(b).x, p(b).y);
+        });
+        ctx.stroke();
+    }
+
     // Helper to draw path
     const drawPath = (indices: number[], close = false, color?: string, width: number = 1) => {
         if (color) ctx.strokeStyle = color;
@@ -163,4 +309,249 @@ export function drawAnalysis(
         ctx.arc(pt.x, pt.y, SIZES.key, 0, 2 * Math.PI);
         ctx.fill();
     });
+
+    drawLayers(ctx, p, landmarks.length, layers, COLORS, measurements && i18n ? { m: measurements, i18n } : undefined);
+
+    // 5. Regularization Audit (detected point -> regularized point)
+    if (corrections && corrections.length > 0) {
+        ctx.strokeStyle = COLORS.correction;
+        ctx.lineWidth = 1;
+        originalPositions(landmarks, corrections).forEach((from, idx) => {
+            const to = p(idx);
+            ctx.beginPath();
+            ctx.moveTo(from.x, from.y);
+            ctx.lineTo(to.x, to.y);
+            ctx.stroke();
+
+            // Hollow ring = where the detector put it
+            ctx.beginPath();
+            ctx.arc(from.x, from.y, SIZES.main, 0, 2 * Math.PI);
+            ctx.stroke();
+        });
+    }
+}
+
+// Measurement layers: each draws the construction behind one metric and labels it
+function drawLayers(
+    ctx: CanvasRenderingContext2D,
+    p: (idx: number) => Point,
+    count: number,
+    layers: OverlayLayers,
+    colors: Palette,
+    labels?: { m: FaceMeasurements; i18n: Translator }
+) {
+    const m = labels?.m;
+    // Jaw angles are labeled even without measurements (computed from the points)
+    const number = labels?.i18n.number ?? plainNumber;
+    // Scale labels with the photo so they read the same at any resolution
+    const unit = Math.max(ctx.canvas.width, ctx.canvas.height) / 400;
+    const line = (a: Point, b: Point) => {
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.stroke();
+    };
+    const label = (text: string, at: Point) => {
+        ctx.font = `500 ${9 * unit}px sans-serif`;
+        const w = ctx.measureText(text).width + 6 * unit;
+        ctx.fillStyle = colors.labelBackground;
+        ctx.fillRect(at.x - w / 2, at.y - 7 * unit, w, 13 * unit);
+        ctx.fillStyle = colors.label;
+        ctx.textAlign = 'center';
+        ctx.fillText(text, at.x, at.y + 3 * unit);
+        ctx.textAlign = 'start';
+    };
+
+    const left = p(234).x, right = p(454).x;
+    const top = p(10).y, bottom = p(152).y;
+
+    // Thirds: hairline / brow / mouth / chin; Fifths: face edges and eye corners
+    if (layers.thirds) {
+        ctx.strokeStyle = colors.layers.thirds;
+        ctx.lineWidth = unit * 0.75;
+        ctx.setLineDash([4 * unit, 3 * unit]);
+        const rows = [10, 9, 0, 152].map(i => p(i).y);
+        const cols = [234, 33, 133, 362, 263, 454].map(i => p(i).x);
+        rows.forEach(y => line({ x: left, y }, { x: right, y }));
+        cols.forEach(x => line({ x, y: top }, { x, y: bottom }));
+        ctx.setLineDash([]);
+        if (m) {
+            const thirds = m.distances.thirds, fifths = m.distances.fifths;
+            const sumT = thirds.reduce((a, b) => a + b, 0), sumF = fifths.reduce((a, b) => a + b, 0);
+            thirds.forEach((t, i) => label(pct(t / sumT, number), { x: left - 14 * unit, y: (rows[i] + rows[i + 1]) / 2 }));
+            fifths.forEach((f, i) => label(pct(f / sumF, number), { x: (cols[i] + cols[i + 1]) / 2, y: top - 10 * unit }));
+        }
+    }
+
+    // Golden grid: the face box split at 1/φ² and 1/φ both ways
+    if (layers.golden) {
+        ctx.strokeStyle = colors.layers.golden;
+        ctx.lineWidth = unit * 0.75;
+        ctx.strokeRect(left, top, right - left, bottom - top);
+        [1 / (PHI * PHI), 1 / PHI].forEach(t => {
+            const x = left + (right - left) * t, y = top + (bottom - top) * t;
+            line({ x, y: top }, { x, y: bottom });
+            line({ x: left, y }, { x: right, y });
+        });
+        if (labels) label(`${labels.i18n.t.overlay.values.heightWidth} ${number(labels.m.ratios.face_ratio, 2)} • φ ${number(PHI, 2)}`, { x: (left + right) / 2, y: bottom + 12 * unit });
+    }
+
+    // Symmetry: mirror axis and, per pair, the left point reflected onto the right side
+    if (layers.symmetry) {
+        const a = p(10), b = p(152);
+        const dx = b.x - a.x, dy = b.y - a.y, len2 = dx * dx + dy * dy;
+        const reflect = (q: Point) => {
+            const t = ((q.x - a.x) * dx + (q.y - a.y) * dy) / len2;
+            const foot = { x: a.x + dx * t, y: a.y + dy * t };
+            return { x: 2 * foot.x - q.x, y: 2 * foot.y - q.y };
+        };
+        ctx.strokeStyle = colors.layers.symmetry;
+        ctx.lineWidth = unit * 0.75;
+        line(a, b);
+
+        SYMMETRY_PAIRS.forEach(([l, r, key]) => {
+            const mirrored = reflect(p(l)), target = p(r);
+            ctx.lineWidth = unit;
+            line(mirrored, target);
+            ctx.beginPath();
+            ctx.arc(mirrored.x, mirrored.y, 1.5 * unit, 0, 2 * Math.PI);
+            ctx.stroke();
+            if (m) label(`${number(m.symmetry[key])}%`, { x: target.x + 16 * unit, y: target.y });
+        });
+    }
+
+    // Jaw: gonial angle arcs, ear -> gonion -> chin (172 is the visual-left side)
+    if (layers.jaw) {
+        const chin = p(152);
+        const sides: [number, number, number | undefined][] = [
+            [234, 172, m?.angles.jaw_angle_right],
+            [454, 397, m?.angles.jaw_angle_left],
+        ];
+        ctx.strokeStyle = colors.layers.jaw;
+        ctx.lineWidth = unit;
+        sides.forEach(([ear, gonion, degrees]) => {
+            const g = p(gonion);
+            line(p(ear), g);
+            line(g, chin);
+            const from = Math.atan2(p(ear).y - g.y, p(ear).x - g.x);
+            const to = Math.atan2(chin.y - g.y, chin.x - g.x);
+            const radius = Math.min(dist(g, p(ear)), dist(g, chin)) * 0.3;
+            // Sweep the interior angle, whichever way round it is
+            const anticlockwise = ((to - from + 2 * Math.PI) % (2 * Math.PI)) > Math.PI;
+            ctx.beginPath();
+            ctx.arc(g.x, g.y, radius, from, to, anticlockwise);
+            ctx.stroke();
+            // Label on the bisector, outside the arc
+            const mid = Math.atan2(Math.sin(from) + Math.sin(to), Math.cos(from) + Math.cos(to));
+            const value = degrees ?? calculateAngle(p(ear), g, chin);
+            label(`${number(value)}°`, { x: g.x + Math.cos(mid) * radius * 1.8, y: g.y + Math.sin(mid) * radius * 1.8 });
+        });
+    }
+
+    // Iris: fitted circles and the interpupillary line (refined landmarks only)
+    if (layers.iris && count > 477) {
+        ctx.strokeStyle = colors.layers.iris;
+        ctx.lineWidth = unit * 0.75;
+        const centers = [468, 473].map(c => {
+            const r = [1, 2, 3, 4].reduce((sum, k) => sum + dist(p(c), p(c + k)), 0) / 4;
+            ctx.beginPath();
+            ctx.arc(p(c).x, p(c).y, r, 0, 2 * Math.PI);
+            ctx.stroke();
+            return p(c);
+        });
+        ctx.setLineDash([3 * unit, 2 * unit]);
+        line(centers[0], centers[1]);
+        ctx.setLineDash([]);
+        if (labels) label(`${labels.i18n.t.overlay.values.ipd} ${labels.i18n.t.overlay.values.px(number(labels.m.ipd_px))}`, { x: (centers[0].x + centers[1].x) / 2, y: Math.min(centers[0].y, centers[1].y) - 12 * unit });
+    }
+}
+
+// Swatch color of a layer for the legend
+export const layerColor = (theme: OverlayTheme, layer: OverlayLayer) => OVERLAY_THEMES[theme].layers[layer];
+
+// Midline points traced in a side profile (forehead -> chin)
+const PROFILE_LINE = [10, 151, 9, 168, 6, 197, 195, 5, 4, 1, 2, 164, 0, 13, 14, 17, 18, 200, 199, 175, 152];
+
+export function drawProfileAnalysis(
+    ctx: CanvasRenderingContext2D,
+    landmarks: { x: number; y: number }[],
+    width: number,
+    height: number,
+    visibleSide: 'left' | 'right',
+    theme: OverlayTheme = 'tech'
+) {
+    if (!landmarks || landmarks.length === 0) return;
+    const COLORS = OVERLAY_THEMES[theme];
+
+    const p = (idx: number) => landmarks[idx];
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    // 1. Profile Contour
+    ctx.strokeStyle = COLORS.oval;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(p(PROFILE_LINE[0]).x, p(PROFILE_LINE[0]).y);
+    PROFILE_LINE.slice(1).forEach(idx => ctx.lineTo(p(idx).x, p(idx).y));
+    ctx.stroke();
+
+    // 2. Ricketts E-line (Nose Tip -> Chin), extended past both ends
+    const nose = p(1), chin = p(175);
+    const ex = (chin.x - nose.x) * 0.25, ey = (chin.y - nose.y) * 0.25;
+    ctx.strokeStyle = COLORS.eyes;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(nose.x - ex, nose.y - ey);
+    ctx.lineTo(chin.x + ex, chin.y + ey);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // 3. Angle Legs (Gonial, Nasofrontal, Nasolabial)
+    const [ear, gonion] = visibleSide === 'right' ? [234, 172] : [454, 397];
+    const angles = [
+        [ear, gonion, 152],
+        [9, 168, 1],
+        [1, 2, 0],
+    ];
+    ctx.strokeStyle = COLORS.tiltLine;
+    ctx.lineWidth = 1.5;
+    angles.forEach(([a, vertex, b]) => {
+        ctx.beginPath();
+        ctx.moveTo(p(a).x, p(a).y);
+        ctx.lineTo(p(vertex).x, p(vertex).y);
+        ctx.lineTo(p(b).x, p(b).y);
+        ctx.stroke();
+    });
+
+    // 4. Vertices
+    ctx.fillStyle = '#FFFFFF';
+    angles.forEach(([, vertex]) => {
+        ctx.beginPath();
+        ctx.arc(p(vertex).x, p(vertex).y, SIZES.key, 0, 2 * Math.PI);
+        ctx.fill();
+    });
+}
+
+// Numbered boxes for picking a face in a group photo (numbers are 1-based)
+// Draws over what is already on the canvas, so it can sit on top of the mesh
+export function drawFaceBoxes(ctx: CanvasRenderingContext2D, boxes: FaceBox[], highlight: number | null = null) {
+    // Scale strokes and labels with the photo so they read the same at any resolution
+    const unit = Math.max(ctx.canvas.width, ctx.canvas.height) / 400;
+
+    boxes.forEach((box, i) => {
+        ctx.strokeStyle = i === highlight ? OVERLAY_THEMES.tech.eyes : OVERLAY_THEMES.tech.oval;
+        ctx.lineWidth = (i === highlight ? 2 : 1) * unit;
+        ctx.strokeRect(box.x, box.y, box.width, box.height);
+
+        const label = String(i + 1);
+        ctx.font = `600 ${12 * unit}px sans-serif`;
+        const labelWidth = ctx.measureText(label).width + 8 * unit;
+        ctx.fillStyle = i === highlight ? OVERLAY_THEMES.tech.eyes : 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(box.x, box.y - 18 * unit, labelWidth, 18 * unit);
+        ctx.fillStyle = i === highlight ? '#000' : '#FFFFFF';
+        ctx.fillText(label, box.x + 4 * unit, box.y - 5 * unit);
+    });
 }
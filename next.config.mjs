@@ -1,10 +1,21 @@
+// One id per build: names the build's chunks and the service worker cache holding them
+const BUILD_ID = process.env.BUILD_ID || Date.now().toString(36);
+// Sub-path the export is served from (e.g. /looksrate); pages, chunks, models and the service worker live under it
+const BASE_PATH = (process.env.NEXT_PUBLIC_BASE_PATH || '').replace(/\/+$/, '');
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   transpilePackages: ['@tensorflow/tfjs-core', '@tensorflow/tfjs-backend-webgl'],
   output: 'export',
+  basePath: BASE_PATH,
   images: {
     unoptimized: true,
   },
+  generateBuildId: () => BUILD_ID,
+  env: {
+    NEXT_PUBLIC_BUILD_ID: BUILD_ID,
+    NEXT_PUBLIC_BASE_PATH: BASE_PATH,
+  },
 };
 
 export default nextConfig;
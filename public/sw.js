@@ -0,0 +1,72 @@
+/**
+ * Offline support: precaches the face-mesh model assets and the build's
+ * /_next chunks listed in the model manifest, serves them cache-first, and
+ * keeps a copy of the app shell so the static export opens without a network
+ * after the first visit. One cache per build: activating a new build drops the
+ * previous one's chunks.
+ */
+
+const params = new URL(self.location.href).searchParams;
+const CACHE = `looksrate-${params.get('build') || 'dev'}`;
+// The app's root (the worker's scope, so sub-path deployments work): the shell and /_next live under it
+const SCOPE = new URL(self.registration.scope).pathname;
+const MODEL_BASE = (params.get('models') || `${SCOPE}models`).replace(/\/+$/, '');
+
+self.addEventListener('install', event => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(CACHE);
+        const res = await fetch(`${MODEL_BASE}/manifest.json`, { cache: 'no-cache' });
+        // `app` is only there after `build` (scripts/precache-app-assets.mjs), relative to the scope
+        const { files, app = [] } = await res.json();
+        await cache.addAll([
+            SCOPE,
+            `${MODEL_BASE}/manifest.json`,
+            ...files.map(file => `${MODEL_BASE}/${file}`),
+            ...app.map(file => `${SCOPE}${file}`),
+        ]);
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        const keys = await caches.keys();
+        await Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key)));
+        await self.clients.claim();
+    })());
+});
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+    if (url.origin !== self.location.origin) return;
+
+    // Pages: network first so deploys show up, cached shell when offline
+    if (request.mode === 'navigate') {
+        event.respondWith(
+            fetch(request)
+                .then(res => {
+                    const copy = res.clone();
+                    caches.open(CACHE).then(cache => cache.put(request, copy));
+                    return res;
+                })
+                .catch(async () => (await caches.match(request)) || (await caches.match(SCOPE)))
+        );
+        return;
+    }
+
+    // Models and hashed build assets never change under the same URL: cache first
+    event.respondWith(
+        caches.match(request, { ignoreSearch: url.pathname.startsWith(MODEL_BASE) }).then(cached => {
+            if (cached) return cached;
+            return fetch(request).then(res => {
+                if (res.ok && (url.pathname.startsWith(MODEL_BASE) || url.pathname.startsWith(`${SCOPE}_next/`))) {
+                    const copy = res.clone();
+                    caches.open(CACHE).then(cache => cache.put(request, copy));
+                }
+                return res;
+            });
+        })
+    );
+});
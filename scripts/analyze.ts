@@ -0,0 +1,121 @@
+/**
+ * Batch analysis of a folder of photos, for dataset audits and regression
+ * checks. Runs the same pipeline as the app, headless (lib/node.ts), and writes
+ *
+ *   <out>/results.json  every result (landmarks included) or error, per photo
+ *   <out>/results.csv   one row per photo, one column per measurement and score
+ *
+ *   npm run analyze -- <folder> [--out dir] [--view front|profile] [--scoring id]
+ *                      [--norms id] [--strict] [--allow-low-quality]
+ *                      [--allow-non-neutral] [--recursive] [--models dir]
+ *
+ * Needs the tfjs models from `npm run models`. Per-photo failures are recorded
+ * and the run goes on; the exit code is 1 only when nothing could be analyzed.
+ */
+import { mkdir, readdir, writeFile } from 'node:fs/promises';
+import { extname, join, relative, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { initNodeRuntime, DEFAULT_MODEL_DIR } from '../lib/node';
+import { analyzeFace } from '../lib/analyzeFace';
+import { analyzeProfile } from '../lib/analyzeProfile';
+import { getScoringProfile, formatProfileVersion } from '../lib/scoring';
+import { getNormSet } from '../lib/norms';
+import { serializeAnalysisError, toAnalysisError } from '../lib/errors';
+import { BatchEntry, buildBatchReport, batchToCSV } from '../lib/batch';
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp']);
+
+const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        out: { type: 'string', default: 'analysis-results' },
+        view: { type: 'string', default: 'front' },
+        scoring: { type: 'string' },
+        norms: { type: 'string' },
+        strict: { type: 'boolean', default: false },
+        'allow-low-quality': { type: 'boolean', default: false },
+        'allow-non-neutral': { type: 'boolean', default: false },
+        recursive: { type: 'boolean', default: false },
+        models: { type: 'string', default: DEFAULT_MODEL_DIR },
+    },
+});
+
+async function listImages(dir: string, recursive: boolean): Promise<string[]> {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const files = await Promise.all(entries.map(async entry => {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) return recursive ? listImages(path, true) : [];
+        return IMAGE_EXTENSIONS.has(extname(entry.name).toLowerCase()) ? [path] : [];
+    }));
+    return files.flat().sort();
+}
+
+async function main() {
+    const [folder] = positionals;
+    if (!folder || (values.view !== 'front' && values.view !== 'profile')) {
+        console.error('Usage: npm run analyze -- <folder> [--out dir] [--view front|profile] [--scoring id] [--norms id] [--strict] [--allow-low-quality] [--allow-non-neutral] [--recursive] [--models dir]');
+        process.exit(1);
+    }
+
+    const root = resolve(folder);
+    const files = await listImages(root, values.recursive);
+    if (files.length === 0) {
+        console.error(`No images (${Array.from(IMAGE_EXTENSIONS).join(', ')}) in ${root}`);
+        process.exit(1);
+    }
+
+    const scoringProfile = getScoringProfile(values.scoring);
+    const norms = getNormSet(values.norms);
+    await initNodeRuntime({ modelDir: values.models });
+
+    const entries: BatchEntry[] = [];
+    for (let i = 0; i < files.length; i++) {
+        const path = files[i];
+        const file = relative(root, path);
+        try {
+            const result = values.view === 'profile'
+                ? await analyzeProfile(path, { norms })
+                : await analyzeFace(path, {
+                    scoringProfile,
+                    norms,
+                    strict: values.strict,
+                    allowLowQuality: values['allow-low-quality'],
+                    allowNonNeutral: values['allow-non-neutral'],
+                });
+            entries.push({ file, result });
+            console.error(`[${i + 1}/${files.length}] ${file}: ${result.overall}`);
+        } catch (err) {
+            const error = toAnalysisError(err);
+            // Without a model every photo would fail the same way
+            if (error.code === 'MODEL_LOAD_FAILED') {
+                console.error(`${error.message} from ${values.models} (run \`npm run models\` first)`, error.cause);
+                process.exit(1);
+            }
+            entries.push({ file, error: serializeAnalysisError(error) });
+            console.error(`[${i + 1}/${files.length}] ${file}: ${error.code}${error.rule ? ` (${error.rule})` : ''}`);
+        }
+    }
+
+    const out = resolve(values.out);
+    await mkdir(out, { recursive: true });
+    const report = buildBatchReport(entries, {
+        folder: root,
+        view: values.view,
+        scoring_profile: formatProfileVersion(scoringProfile),
+        norm_set: norms.id,
+        strict: values.strict,
+        allow_low_quality: values['allow-low-quality'],
+        allow_non_neutral: values['allow-non-neutral'],
+    });
+    await writeFile(join(out, 'results.json'), JSON.stringify(report, null, 2));
+    await writeFile(join(out, 'results.csv'), batchToCSV(entries));
+
+    const failed = entries.filter(e => e.error).length;
+    console.error(`${entries.length - failed} analyzed, ${failed} failed. Wrote ${join(out, 'results.json')} and results.csv`);
+    if (failed === entries.length) process.exit(1);
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
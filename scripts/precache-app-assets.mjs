@@ -0,0 +1,35 @@
+/**
+ * Adds the static export's build assets to the model manifest, so the service
+ * worker precaches the app's JS and CSS chunks along with the models and the
+ * app works offline before every chunk has been fetched once.
+ *
+ *   out/models/manifest.json  + build_id  id of the build (next.config.mjs)
+ *                             + app       every file under out/_next, relative to the app's base path
+ *
+ * Run automatically after `build`.
+ */
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const out = join(root, 'out');
+const manifestPath = join(out, 'models', 'manifest.json');
+
+async function listFiles(dir) {
+    const entries = await readdir(dir);
+    const files = await Promise.all(entries.map(async entry => {
+        const path = join(dir, entry);
+        return (await stat(path)).isDirectory() ? listFiles(path) : [path];
+    }));
+    return files.flat();
+}
+
+const buildId = (await readFile(join(root, '.next', 'BUILD_ID'), 'utf8')).trim();
+const app = (await listFiles(join(out, '_next')))
+    .map(path => relative(out, path).split('\\').join('/'))
+    .sort();
+
+const manifest = JSON.parse(await readFile(manifestPath, 'utf8'));
+await writeFile(manifestPath, JSON.stringify({ ...manifest, build_id: buildId, app }, null, 2));
+console.log(`[precache] ${app.length} build assets for build ${buildId}`);
@@ -0,0 +1,91 @@
+/**
+ * Copies the face-mesh model assets into public/models so the static export
+ * serves them itself (no CDN at runtime), and writes the manifest the service
+ * worker precaches from.
+ *
+ *   public/models/face_mesh/             MediaPipe solution (wasm + packed assets), from node_modules
+ *   public/models/face_detection_short/  tfjs fallback detector, downloaded once from TF Hub
+ *   public/models/attention_mesh/        tfjs fallback landmark model, downloaded once from TF Hub
+ *   public/models/manifest.json          every file above, relative to public/models
+ *
+ * Run automatically before `dev` and `build`. Downloads are skipped when the
+ * files are already present, so offline builds work after the first one.
+ */
+import { copyFile, mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const out = join(root, 'public', 'models');
+
+const MEDIAPIPE_FILES = [
+    'face_mesh.js',
+    'face_mesh.binarypb',
+    'face_mesh_solution_packed_assets.data',
+    'face_mesh_solution_packed_assets_loader.js',
+    'face_mesh_solution_simd_wasm_bin.js',
+    'face_mesh_solution_simd_wasm_bin.wasm',
+    'face_mesh_solution_wasm_bin.js',
+    'face_mesh_solution_wasm_bin.wasm',
+];
+
+// Same models the tfjs runtime loads by default (refineLandmarks => attention mesh)
+const TFJS_MODELS = {
+    face_detection_short: 'https://tfhub.dev/mediapipe/tfjs-model/face_detection/short/1',
+    attention_mesh: 'https://tfhub.dev/mediapipe/tfjs-model/face_landmarks_detection/attention_mesh/1',
+};
+
+async function copyMediaPipe() {
+    const src = join(root, 'node_modules', '@mediapipe', 'face_mesh');
+    const dest = join(out, 'face_mesh');
+    await mkdir(dest, { recursive: true });
+    await Promise.all(MEDIAPIPE_FILES.map(file => copyFile(join(src, file), join(dest, file))));
+}
+
+async function download(url, dest) {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+    await writeFile(dest, Buffer.from(await res.arrayBuffer()));
+}
+
+async function fetchTfjsModel(name, hubUrl) {
+    const dest = join(out, name);
+    if (existsSync(join(dest, 'model.json'))) return;
+    await mkdir(dest, { recursive: true });
+
+    const modelJson = join(dest, 'model.json');
+    await download(`${hubUrl}/model.json?tfjs-format=file`, modelJson);
+    const { weightsManifest } = JSON.parse(await readFile(modelJson, 'utf8'));
+    const shards = weightsManifest.flatMap(group => group.paths);
+    for (const shard of shards) {
+        await download(`${hubUrl}/${shard}?tfjs-format=file`, join(dest, shard));
+    }
+}
+
+async function listFiles(dir) {
+    const entries = await readdir(dir);
+    const files = await Promise.all(entries.map(async entry => {
+        const path = join(dir, entry);
+        return (await stat(path)).isDirectory() ? listFiles(path) : [path];
+    }));
+    return files.flat();
+}
+
+await copyMediaPipe();
+
+for (const [name, url] of Object.entries(TFJS_MODELS)) {
+    try {
+        await fetchTfjsModel(name, url);
+    } catch (e) {
+        // The mediapipe runtime still works; only the offline fallback is missing
+        console.warn(`[models] Could not fetch tfjs model "${name}": ${e.message}`);
+    }
+}
+
+const files = (await listFiles(out))
+    .map(path => relative(out, path).split('\\').join('/'))
+    .filter(path => path !== 'manifest.json')
+    .sort();
+await writeFile(join(out, 'manifest.json'), JSON.stringify({ files }, null, 2));
+console.log(`[models] ${files.length} files in public/models`);